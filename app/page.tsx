@@ -7,6 +7,9 @@ export default function Home() {
         <div>
           <Link href="/table-example/">Table Example</Link>
         </div>
+        <div>
+          <Link href="/server-table-example/">Server-Side Table Example</Link>
+        </div>
         <div>
           <Link href="/date-picker-example/">Date Picker Example</Link>
         </div>
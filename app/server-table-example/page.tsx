@@ -0,0 +1,34 @@
+"use client";
+
+import React from "react";
+import { ColumnDef } from "@tanstack/react-table";
+import { Payment, columns } from "@/app/table-example/columns";
+import { paymentData } from "@/app/table-example/payment-data";
+import { DataTable } from "@/components/data-table/core/DataTable";
+import { createInMemoryDataSource } from "@/components/data-table/utils/dataSource";
+
+// In-memory adapter standing in for a real backend, with simulated latency
+const dataSource = createInMemoryDataSource<Payment>({
+  data: paymentData,
+  filterFns: {
+    reviewRating: (value, filterValue) =>
+      (value as number) >= (filterValue as number),
+  },
+  globalFilterColumns: ["status", "category", "email"],
+  latency: 300,
+});
+
+export default function ServerTableDemoPage() {
+  return (
+    <div className="container mx-auto py-5">
+      <DataTable
+        // Core Options
+        columns={columns as ColumnDef<Payment>[]}
+        dataSource={dataSource}
+        // Formatting Options
+        defaultPageSize={100}
+        containerHeight="70vh"
+      />
+    </div>
+  );
+}
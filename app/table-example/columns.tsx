@@ -1,6 +1,7 @@
 "use client";
 
 import { createColumnHelper } from "@tanstack/react-table";
+import { z } from "zod";
 import {
   createMoneyRenderer,
   createCategoryRenderer,
@@ -81,6 +82,8 @@ export const columns = [
     filterFn: "equals",
     enableGrouping: true,
     meta: {
+      dataType: "string",
+      editable: { type: "category" },
       options: [
         { label: "Pending", value: "pending" },
         { label: "Processing", value: "processing" },
@@ -101,6 +104,7 @@ export const columns = [
     enableGrouping: true,
     filterFn: "equals",
     meta: {
+      dataType: "string",
       options: [
         { label: "Retail", value: "retail" },
         { label: "Corporate", value: "corporate" },
@@ -113,12 +117,25 @@ export const columns = [
   columnHelper.accessor("email", {
     header: "Email",
     enableGrouping: true,
+    meta: {
+      dataType: "string",
+      editable: {
+        type: "text",
+        schema: z.string().email("Enter a valid email address"),
+      },
+    },
   }),
 
   columnHelper.accessor("amount", {
     header: "Amount",
     filterFn: "numberRange",
     meta: {
+      dataType: "number",
+      numberFormat: { digits: 2, showCurrencySymbol: false },
+      editable: {
+        type: "money",
+        schema: z.number({ invalid_type_error: "Enter an amount" }).min(0),
+      },
       filterConfig: {
         type: "rangeSlider",
         column: "amount",
@@ -140,7 +157,9 @@ export const columns = [
     aggregationFn: "mean",
     filterFn: "starRating",
     meta: {
+      dataType: "number",
       maxStars: 5,
+      editable: { type: "starRating" },
       filterConfig: {
         type: "starRating",
         column: "reviewRating",
@@ -165,6 +184,10 @@ export const columns = [
   columnHelper.accessor("reviewDate", {
     header: "Review Date",
     aggregationFn: "extent",
+    meta: {
+      dataType: "date",
+      editable: { type: "date", schema: z.date() },
+    },
     cell: (props) =>
       dateRenderer({
         cell: props.cell,
@@ -9,6 +9,20 @@ import { ColumnDef } from "@tanstack/react-table";
 // Use imported payment data
 const data: Payment[] = paymentData;
 
+// Details shown under an expanded payment row
+const PaymentDetails = ({ payment }: { payment: Payment }) => (
+  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+    <dt className="text-muted-foreground">Payment ID</dt>
+    <dd>{payment.id}</dd>
+    <dt className="text-muted-foreground">Customer</dt>
+    <dd>{payment.email}</dd>
+    <dt className="text-muted-foreground">Reviewed</dt>
+    <dd>
+      {payment.reviewDate.toLocaleDateString()} ({payment.reviewRating} / 5)
+    </dd>
+  </dl>
+);
+
 export default function DemoPage() {
   return (
     <div className="container mx-auto py-5">
@@ -20,6 +34,23 @@ export default function DemoPage() {
         enableGrouping={true}
         defaultGrouping={["status", "category"]}
         defaultExpanded={1}
+        // Selection Options
+        enableRowSelection={true}
+        // Detail Options
+        renderDetailPanel={(row) => <PaymentDetails payment={row.original} />}
+        // Summary Options
+        enableTotalsRow={true}
+        conditionalFormats={[
+          {
+            id: "amount-bars",
+            columnId: "amount",
+            type: "dataBar",
+            color: "#93c5fd",
+          },
+        ]}
+        // Persistence Options
+        savedViews={{ tableId: "payments" }}
+        urlState={{ prefix: "payments" }}
         // Formatting Options
         defaultPageSize={50}
         containerHeight="70vh"
@@ -5,33 +5,39 @@
  */
 
 import * as React from "react";
-import { ColumnDef, GroupingState, Row } from "@tanstack/react-table";
+import {
+  ColumnDef,
+  GroupingState,
+  Row,
+  Table as ReactTable,
+} from "@tanstack/react-table";
 import { TableBody, TableCell, TableRow } from "@/components/ui/table";
 
 import { TableRowComponent } from "@/components/data-table/ui/row/Row";
 import { useTableVirtualization } from "@/components/data-table/hooks/useTableVirtualization";
 import { useStickyGroupHeaders } from "@/components/data-table/hooks/useStickyGroupHeaders";
+import { useGridKeyboardNavigation } from "@/components/data-table/hooks/useGridKeyboardNavigation";
 
 // Update ClientTableBody props to be generic
 interface ClientTableBodyProps<TData, TValue> {
+  table: ReactTable<TData>;
   rows: Row<TData>[];
   tableContainerRef: React.RefObject<HTMLDivElement>;
   rowRefsMap: React.RefObject<Map<number, HTMLTableRowElement>>;
   isMountedRef: React.RefObject<boolean>;
   grouping: GroupingState;
   columns: ColumnDef<TData, TValue>[];
-  bodyUpdateCounter?: number; // Optional prop to force re-renders
 }
 
 // Create a client-only component for virtualized table body
 export function ClientTableBody<TData, TValue>({
+  table,
   rows,
   tableContainerRef,
   rowRefsMap,
   isMountedRef,
   grouping,
   columns,
-  bodyUpdateCounter, // Add the prop here
 }: ClientTableBodyProps<TData, TValue>) {
   // Setup virtualization
   const virtualizer = useTableVirtualization({
@@ -41,30 +47,45 @@ export function ClientTableBody<TData, TValue>({
     isMountedRef,
   });
 
-  // Effect to re-initialize virtualizer when bodyUpdateCounter changes
-  React.useEffect(() => {
-    if (bodyUpdateCounter && bodyUpdateCounter > 0 && virtualizer) {
-      // Force the virtualizer to recalculate
-      virtualizer.measure();
-    }
-  }, [bodyUpdateCounter, virtualizer]);
-
   // Setup sticky headers
   const { stickyGroupHeaders } = useStickyGroupHeaders({
     rows,
     grouping,
+    isTreeData: Boolean(table.options.meta?.isTreeData),
     tableContainerRef,
     isMountedRef,
     virtualizer,
   });
 
+  // Keyboard navigation between the cells of the grid
+  const { activeCell, onCellFocus, onKeyDown } = useGridKeyboardNavigation({
+    table,
+    rows,
+    virtualizer,
+    tableContainerRef,
+  });
+
+  // Body rows follow the header rows in aria-rowindex
+  const headerRowCount = table.getHeaderGroups().length;
+
   const virtualRows = virtualizer.getVirtualItems();
 
+  // Keep a rendered cell in the tab sequence when the active row is scrolled away
+  const tabbableRowIndex = virtualRows.some(
+    (virtualRow) => virtualRow.index === activeCell.rowIndex,
+  )
+    ? activeCell.rowIndex
+    : virtualRows[0]?.index;
+
   if (rows.length === 0) {
     return (
-      <TableBody>
-        <TableRow>
-          <TableCell colSpan={columns.length} className="h-16 text-center">
+      <TableBody role="rowgroup">
+        <TableRow role="row">
+          <TableCell
+            role="gridcell"
+            colSpan={columns.length}
+            className="h-16 text-center"
+          >
             No results.
           </TableCell>
         </TableRow>
@@ -83,7 +104,10 @@ export function ClientTableBody<TData, TValue>({
         contain: "strict",
         zIndex: 1,
       }}
-      className="z-1 relative"
+      // Dragging selects cell ranges rather than text
+      className="z-1 relative select-none"
+      role="rowgroup"
+      onKeyDown={onKeyDown}
     >
       {virtualRows.map((virtualRow) => {
         const row = rows[virtualRow.index];
@@ -97,6 +121,13 @@ export function ClientTableBody<TData, TValue>({
             virtualizer={virtualizer}
             grouping={grouping}
             stickyGroupHeaders={stickyGroupHeaders}
+            ariaRowIndex={headerRowCount + virtualRow.index + 1}
+            activeColumnIndex={
+              tabbableRowIndex === virtualRow.index
+                ? activeCell.columnIndex
+                : null
+            }
+            onCellFocus={onCellFocus}
           />
         );
       })}
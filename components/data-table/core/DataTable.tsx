@@ -19,6 +19,10 @@ import { DataTableFooter } from "@/components/data-table/ui/footer/Footer";
 
 // Import the custom hook
 import { useDataTableLogic } from "@/components/data-table/hooks/useDataTableLogic";
+import {
+  exportTable,
+  getExportContent,
+} from "@/components/data-table/utils/exportUtils";
 
 // --- Main DataTable Component ---
 export function DataTable<TData, TValue>(props: DataTableProps<TData, TValue>) {
@@ -37,10 +41,54 @@ export function DataTable<TData, TValue>(props: DataTableProps<TData, TValue>) {
     isMountedRef,
     groupableColumnObjects,
     discoveredColumnFilters,
+    isServerSide,
+    isLoading,
+    error,
+    refetch,
+    totalRowCount,
+    isPaginated,
+    getSelectedRows,
+    cellRangeStats,
+    copyStatus,
+    pivot,
+    setPivot,
+    isPivotAvailable,
+    conditionalFormats,
+    setConditionalFormats,
   } = useDataTableLogic(props); // Use the hook
 
   // Destructure props needed here or pass `props` down
-  const { columns, data, enableGrouping = false, containerHeight } = props;
+  const {
+    columns,
+    enableGrouping = false,
+    containerHeight,
+    enableTotalsRow = false,
+    savedViews,
+    onImport,
+    ref,
+  } = props;
+
+  // Imperative API for the host page
+  React.useImperativeHandle(
+    ref,
+    () => ({
+      getSelectedRows,
+      exportData: (format, options) => exportTable(table, format, options),
+      getExportContent: (format, options) =>
+        getExportContent(table, format, options),
+    }),
+    [getSelectedRows, table],
+  );
+
+  // Server-side rows arrive already grouped by the data source as a flat list,
+  // so rows are rendered without client-side group headers
+  const renderedGrouping = React.useMemo(
+    () => (isServerSide ? [] : grouping),
+    [isServerSide, grouping],
+  );
+
+  // Server-side rows are one page only, so their totals would be misleading
+  const hasTotalsRow = enableTotalsRow && !isServerSide;
 
   return (
     <div className="space-y-1">
@@ -54,6 +102,12 @@ export function DataTable<TData, TValue>(props: DataTableProps<TData, TValue>) {
         isCustomizationDialogOpen={isCustomizationDialogOpen}
         setIsCustomizationDialogOpen={setIsCustomizationDialogOpen}
         enableCustomization={enableGrouping}
+        savedViews={savedViews}
+        pivot={isPivotAvailable ? pivot : undefined}
+        onPivotChange={isPivotAvailable ? setPivot : undefined}
+        conditionalFormats={conditionalFormats}
+        onConditionalFormatsChange={setConditionalFormats}
+        onImport={onImport as ((rows: unknown[]) => void) | undefined}
       />
 
       {/* Table Structure Area */}
@@ -65,18 +119,28 @@ export function DataTable<TData, TValue>(props: DataTableProps<TData, TValue>) {
         tableContainerRef={tableContainerRef}
         rowRefsMap={rowRefsMap}
         isMountedRef={isMountedRef}
-        grouping={grouping}
+        grouping={renderedGrouping}
         headerRef={headerRef}
         columnFilters={discoveredColumnFilters}
         containerHeight={containerHeight}
+        isLoading={isLoading}
+        error={error}
+        onRetry={refetch}
+        enableTotalsRow={hasTotalsRow}
       />
 
       {/* Footer Area */}
       <DataTableFooter
         table={table as unknown as ReactTable<unknown>}
-        dataLength={data.length}
+        dataLength={totalRowCount}
         grouping={grouping}
         groupableColumnObjects={groupableColumnObjects}
+        isPaginated={isPaginated}
+        pagination={table.getState().pagination}
+        pageCount={table.getPageCount()}
+        pageRowCount={table.getRowCount()}
+        cellRangeStats={cellRangeStats}
+        copyStatus={copyStatus}
       />
     </div>
   );
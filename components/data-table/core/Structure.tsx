@@ -7,6 +7,7 @@
 import * as React from "react";
 import {
   Table as ReactTable,
+  Column,
   ColumnDef,
   flexRender,
   Row,
@@ -20,10 +21,14 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
 
 import { ClientTableBody } from "@/components/data-table/core/ClientBody";
+import { DataTableTotalsRow } from "@/components/data-table/ui/footer/TotalsRow";
 import { DataTableColumnHeader } from "@/components/data-table/ui/column-header/ColumnHeader";
 import { ColumnFilter } from "@/components/data-table/types";
+import { getColumnCellStyles } from "@/components/data-table/utils/columnStyles";
 
 // Define props for DataTableStructure
 interface DataTableStructureProps<TData, TValue> {
@@ -38,33 +43,57 @@ interface DataTableStructureProps<TData, TValue> {
   headerRef: React.RefObject<HTMLTableSectionElement | null>;
   columnFilters?: ColumnFilter[];
   containerHeight?: string;
+  isLoading?: boolean;
+  error?: Error | null;
+  onRetry?: () => void;
+  enableTotalsRow?: boolean;
 }
 
+// Position and span of a header cell among the visible leaf columns
+const getHeaderAriaColumnProps = <TData,>(
+  table: ReactTable<TData>,
+  column: Column<TData, unknown>,
+) => {
+  const visibleLeafColumns = column
+    .getLeafColumns()
+    .filter((leafColumn) => leafColumn.getIsVisible());
+  const colIndex =
+    table
+      .getVisibleLeafColumns()
+      .findIndex((leafColumn) => leafColumn.id === visibleLeafColumns[0]?.id) +
+    1;
+  return {
+    "aria-colindex": colIndex,
+    "aria-colspan":
+      visibleLeafColumns.length > 1 ? visibleLeafColumns.length : undefined,
+  };
+};
+
 // Memoized table header component to prevent re-renders
 const MemoizedTableHeader = React.memo(function TableHeaderComponent<TData>({
   table,
   headerRef,
   getFilterConfigForColumn,
   onAggregationChange,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  columnVisibility,
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  columnOrder,
 }: {
   table: ReactTable<TData>;
   headerRef: React.RefObject<HTMLTableSectionElement | null>;
   getFilterConfigForColumn: (columnId: string) => ColumnFilter | undefined;
-  onAggregationChange: (columnId: string, aggregationFn: string) => void;
-  columnVisibility: Record<string, boolean>; // Will force re-render when changed
-  columnOrder: string[]; // Will force re-render when order changes
+  onAggregationChange: (
+    columnId: string,
+    aggregationFn: string,
+    weightColumn?: string,
+  ) => void;
+  // Changes whenever the table state shown in the header changes, which
+  // re-renders the header
+  stateKey: unknown;
 }) {
-  // We use columnVisibility and columnOrder as dependencies to force re-renders
-  // when visibility or ordering changes, even though we don't reference them directly
-
   return (
     <Table
+      role="presentation"
       style={{
         width: "100%",
+        minWidth: `${table.getTotalSize()}px`,
         tableLayout: "fixed",
         borderCollapse: "separate",
         borderSpacing: 0,
@@ -72,6 +101,7 @@ const MemoizedTableHeader = React.memo(function TableHeaderComponent<TData>({
     >
       <TableHeader
         ref={headerRef}
+        role="rowgroup"
         className="sticky top-0 z-10 bg-background shadow-sm w-full"
         style={{
           width: "100%",
@@ -80,14 +110,16 @@ const MemoizedTableHeader = React.memo(function TableHeaderComponent<TData>({
           zIndex: 10,
         }}
       >
-        {table.getHeaderGroups().map((headerGroup) => (
+        {table.getHeaderGroups().map((headerGroup, headerGroupIndex) => (
           <TableRow
             key={headerGroup.id}
+            role="row"
+            aria-rowindex={headerGroupIndex + 1}
             style={{
               display: "flex",
               width: "100%",
             }}
-            className="flex-auto"
+            className="flex-auto bg-background"
           >
             {headerGroup.headers
               // Only include headers that have at least one visible leaf column
@@ -100,16 +132,36 @@ const MemoizedTableHeader = React.memo(function TableHeaderComponent<TData>({
               .map((header) => (
                 <TableHead
                   key={header.id}
+                  role="columnheader"
+                  // Column groups span the columns of their visible leaves
+                  {...getHeaderAriaColumnProps(table, header.column)}
+                  aria-sort={
+                    header.column.getIsSorted() === "asc"
+                      ? "ascending"
+                      : header.column.getIsSorted() === "desc"
+                        ? "descending"
+                        : undefined
+                  }
+                  data-column-id={header.column.id}
+                  className="relative"
                   style={{
-                    flex: header.column.getSize()
-                      ? `${header.column.getSize()} 0 0`
-                      : 1,
-                    width: header.column.getSize()
-                      ? `${header.column.getSize()}px`
-                      : "auto",
+                    // Pinned headers need to stay above the resize handles
+                    // of the headers scrolling underneath
+                    ...getColumnCellStyles(header.column),
+                    ...(header.column.getIsPinned() ? { zIndex: 20 } : {}),
                   }}
                 >
-                  {header.isPlaceholder ? null : (
+                  {header.isPlaceholder ? null : header.subHeaders.length >
+                    0 ? (
+                    <div className="flex h-full items-center justify-center border-b px-2 font-medium">
+                      <span className="truncate">
+                        {flexRender(
+                          header.column.columnDef.header,
+                          header.getContext(),
+                        )}
+                      </span>
+                    </div>
+                  ) : (
                     <DataTableColumnHeader
                       column={header.column}
                       title={flexRender(
@@ -118,6 +170,7 @@ const MemoizedTableHeader = React.memo(function TableHeaderComponent<TData>({
                       )}
                       filterConfig={getFilterConfigForColumn(header.column.id)}
                       onAggregationChange={onAggregationChange}
+                      header={header}
                     />
                   )}
                 </TableHead>
@@ -131,9 +184,12 @@ const MemoizedTableHeader = React.memo(function TableHeaderComponent<TData>({
   table: ReactTable<T>;
   headerRef: React.RefObject<HTMLTableSectionElement | null>;
   getFilterConfigForColumn: (columnId: string) => ColumnFilter | undefined;
-  onAggregationChange: (columnId: string, aggregationFn: string) => void;
-  columnVisibility: Record<string, boolean>;
-  columnOrder: string[];
+  onAggregationChange: (
+    columnId: string,
+    aggregationFn: string,
+    weightColumn?: string,
+  ) => void;
+  stateKey: unknown;
 }) => React.ReactElement;
 
 // New DataTableStructure component
@@ -149,15 +205,47 @@ export function DataTableStructure<TData, TValue>({
   headerRef,
   columnFilters = [],
   containerHeight = "400px", // Default height if none provided
+  isLoading = false,
+  error = null,
+  onRetry,
+  enableTotalsRow = false,
 }: DataTableStructureProps<TData, TValue>) {
-  // Separate state for body updates only
-  const [bodyUpdateCounter, setBodyUpdateCounter] = React.useState(0);
-
-  // Get column visibility from table state to force re-renders when it changes
-  const columnVisibility = table.getState().columnVisibility;
+  // Table state shown in the header: visibility, order, widths, pinning, sort
+  // indicators, the columns (pivot mode generates them) and the expand-all button
+  const {
+    columnVisibility,
+    columnOrder,
+    columnSizing,
+    columnPinning,
+    sorting,
+    expanded,
+  } = table.getState();
+  const tableColumns = table.options.columns;
+  const headerStateKey = React.useMemo(
+    () => [
+      columnVisibility,
+      columnOrder,
+      columnSizing,
+      columnPinning,
+      sorting,
+      expanded,
+      tableColumns,
+    ],
+    [
+      columnVisibility,
+      columnOrder,
+      columnSizing,
+      columnPinning,
+      sorting,
+      expanded,
+      tableColumns,
+    ],
+  );
 
-  // Get column order from table state to force re-renders when it changes
-  const columnOrder = table.getState().columnOrder;
+  // The header lives outside the scroll container, so it follows the body's
+  // horizontal scroll position
+  const headerScrollRef = React.useRef<HTMLDivElement>(null);
+  const totalsScrollRef = React.useRef<HTMLDivElement>(null);
 
   // Helper function to find filter config for a column
   const getFilterConfigForColumn = React.useCallback(
@@ -167,65 +255,72 @@ export function DataTableStructure<TData, TValue>({
     [columnFilters],
   );
 
-  // Handle aggregation function change
+  // Handle aggregation function change. The grouped row model recomputes the
+  // aggregated values when the chosen aggregations change.
   const handleAggregationChange = React.useCallback(
-    (columnId: string, aggregationFn: string) => {
-      console.log(
-        `Changing aggregation for column ${columnId} to ${aggregationFn}`,
-      );
-
-      // Single update for the body only
-      setBodyUpdateCounter((prev) => prev + 1);
-
-      // Apply the aggregation change directly to the column definition
-      const column = table.getAllColumns().find((col) => col.id === columnId);
-      if (column?.columnDef) {
-        // @ts-expect-error - Type system constraints
-        column.columnDef.aggregationFn = aggregationFn;
-      }
-
-      // For grouped tables, gently recalculate without triggering multiple renders
-      if (grouping.length > 0) {
-        // Use a single timeout to batch updates
-        setTimeout(() => {
-          const tempGrouping = [...grouping];
-          table.setGrouping([]);
-
-          // Use requestAnimationFrame to ensure DOM updates have settled
-          requestAnimationFrame(() => {
-            table.setGrouping(tempGrouping);
-          });
-        }, 0);
-      }
-      // No need for else branch - the body update will be sufficient
+    (columnId: string, aggregationFn: string, weightColumn?: string) => {
+      const meta = table.options.meta;
+      meta?.setColumnAggregations?.((current) => ({
+        ...current,
+        [columnId]: aggregationFn,
+      }));
+      // Aggregations without a weight column drop the weight chosen before
+      meta?.setAggregationWeights?.((current) => {
+        if (weightColumn) return { ...current, [columnId]: weightColumn };
+        if (!(columnId in current)) return current;
+        return Object.fromEntries(
+          Object.entries(current).filter(([id]) => id !== columnId),
+        );
+      });
     },
-    [table, grouping],
+    [table],
   );
 
-  // Effect to update rows only when bodyUpdateCounter changes
+  // Keep the header and the totals row scrolled horizontally in step with the
+  // body
   React.useEffect(() => {
-    if (bodyUpdateCounter > 0) {
-      // Use requestAnimationFrame to ensure we're not in the middle of a render cycle
-      requestAnimationFrame(() => {
-        // Only reset if still mounted
-        if (isMountedRef.current) {
-          table.resetExpanded();
-        }
-      });
-    }
-  }, [bodyUpdateCounter, table, isMountedRef]);
+    const container = tableContainerRef.current;
+    const headerScroll = headerScrollRef.current;
+    if (!container || !headerScroll) return;
+
+    const syncHeaderScroll = () => {
+      headerScroll.scrollLeft = container.scrollLeft;
+      if (totalsScrollRef.current) {
+        totalsScrollRef.current.scrollLeft = container.scrollLeft;
+      }
+    };
+    syncHeaderScroll();
+    container.addEventListener("scroll", syncHeaderScroll, { passive: true });
+    return () => container.removeEventListener("scroll", syncHeaderScroll);
+  }, [tableContainerRef, enableTotalsRow]);
 
   return (
-    <div className="rounded-md border">
-      {/* Memoized table header that won't re-render when bodyUpdateCounter changes */}
-      <MemoizedTableHeader
-        table={table}
-        headerRef={headerRef}
-        getFilterConfigForColumn={getFilterConfigForColumn}
-        onAggregationChange={handleAggregationChange}
-        columnVisibility={columnVisibility}
-        columnOrder={columnOrder}
-      />
+    // Horizontal scrolling happens in the header and body containers below, not
+    // in the wrappers rendered by the Table component
+    <div
+      className="relative rounded-md border [&_[data-slot=table-container]]:overflow-visible"
+      data-table-root=""
+      // The header and body tables together form a single ARIA grid
+      role="grid"
+      aria-rowcount={
+        table.getHeaderGroups().length + rows.length + (enableTotalsRow ? 1 : 0)
+      }
+      aria-colcount={table.getVisibleLeafColumns().length}
+    >
+      {/* Memoized table header that only re-renders when its layout props change */}
+      <div
+        ref={headerScrollRef}
+        className="overflow-hidden"
+        style={{ scrollbarGutter: "stable" }}
+      >
+        <MemoizedTableHeader
+          table={table}
+          headerRef={headerRef}
+          getFilterConfigForColumn={getFilterConfigForColumn}
+          onAggregationChange={handleAggregationChange}
+          stateKey={headerStateKey}
+        />
+      </div>
 
       {/* Scrollable table body that will re-render when needed */}
       <div
@@ -237,19 +332,43 @@ export function DataTableStructure<TData, TValue>({
           willChange: "transform",
           overflowX: "auto",
           overflowY: "auto",
+          // Reserve the scrollbar space in header and body alike so their
+          // columns line up
+          scrollbarGutter: "stable",
         }}
-        key={`body-container-${bodyUpdateCounter}`} // Force only this part to update
       >
         <Table
+          role="presentation"
           style={{
             width: "100%",
+            minWidth: `${table.getTotalSize()}px`,
             tableLayout: "fixed",
             borderCollapse: "separate",
             borderSpacing: 0,
           }}
         >
-          {isClient ? (
+          {error ? (
+            <TableBody role="rowgroup">
+              <TableRow role="row">
+                <TableCell
+                  role="gridcell"
+                  colSpan={columns.length}
+                  className="h-24 text-center text-destructive"
+                >
+                  <div className="flex flex-col items-center gap-2">
+                    <span>Failed to load table data: {error.message}</span>
+                    {onRetry && (
+                      <Button variant="outline" size="sm" onClick={onRetry}>
+                        Retry
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          ) : isClient && !(isLoading && rows.length === 0) ? (
             <ClientTableBody<TData, TValue>
+              table={table}
               rows={rows}
               tableContainerRef={
                 tableContainerRef as React.RefObject<HTMLDivElement>
@@ -258,12 +377,12 @@ export function DataTableStructure<TData, TValue>({
               isMountedRef={isMountedRef}
               grouping={grouping}
               columns={columns}
-              bodyUpdateCounter={bodyUpdateCounter}
             />
           ) : (
-            <TableBody>
-              <TableRow>
+            <TableBody role="rowgroup">
+              <TableRow role="row">
                 <TableCell
+                  role="gridcell"
                   colSpan={columns.length}
                   className="h-24 text-center"
                 >
@@ -273,7 +392,26 @@ export function DataTableStructure<TData, TValue>({
             </TableBody>
           )}
         </Table>
+
+        {/* Keep the current page visible while the next one is loading */}
+        {isLoading && rows.length > 0 && (
+          <div className="sticky bottom-0 left-0 flex w-full justify-center pb-2 pointer-events-none">
+            <div className="flex items-center gap-2 rounded-md border bg-background/95 px-3 py-1 text-sm text-muted-foreground shadow-sm">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              Loading...
+            </div>
+          </div>
+        )}
       </div>
+
+      {/* Totals of the filtered rows, pinned under the scrollable body */}
+      {enableTotalsRow && isClient && !error && (
+        <DataTableTotalsRow
+          table={table}
+          scrollRef={totalsScrollRef}
+          ariaRowIndex={table.getHeaderGroups().length + rows.length + 1}
+        />
+      )}
     </div>
   );
 }
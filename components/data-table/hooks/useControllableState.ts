@@ -0,0 +1,55 @@
+/**
+ * Hook for state that can either be owned by the component (uncontrolled) or driven
+ * by the host through a value prop (controlled). Returns a setter with the same
+ * signature as React's, which notifies the host of every change in both modes.
+ */
+
+import * as React from "react";
+
+interface UseControllableStateProps<T> {
+  value?: T;
+  defaultValue: T | (() => T);
+  onChange?: (value: T) => void;
+}
+
+export function useControllableState<T>({
+  value,
+  defaultValue,
+  onChange,
+}: UseControllableStateProps<T>): [T, React.Dispatch<React.SetStateAction<T>>] {
+  const [uncontrolledValue, setUncontrolledValue] =
+    React.useState<T>(defaultValue);
+  const isControlled = value !== undefined;
+  const currentValue = isControlled ? value : uncontrolledValue;
+
+  // Track the latest value and callback so the setter can stay stable
+  const currentValueRef = React.useRef(currentValue);
+  currentValueRef.current = currentValue;
+  const isControlledRef = React.useRef(isControlled);
+  isControlledRef.current = isControlled;
+  const onChangeRef = React.useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const setValue = React.useCallback<React.Dispatch<React.SetStateAction<T>>>(
+    (updater) => {
+      const previousValue = currentValueRef.current;
+      const nextValue =
+        typeof updater === "function"
+          ? (updater as (prev: T) => T)(previousValue)
+          : updater;
+
+      if (Object.is(nextValue, previousValue)) return;
+
+      // Keep consecutive updates within the same tick chained correctly
+      currentValueRef.current = nextValue;
+
+      if (!isControlledRef.current) {
+        setUncontrolledValue(nextValue);
+      }
+      onChangeRef.current?.(nextValue);
+    },
+    [],
+  );
+
+  return [currentValue, setValue];
+}
@@ -0,0 +1,152 @@
+/**
+ * Hook that holds the cell range selection and implements selecting a range by
+ * dragging over the cells, scrolling the table while the pointer is held near the
+ * top or bottom edge so that ranges can extend beyond the rendered rows.
+ */
+
+import * as React from "react";
+import {
+  CellRange,
+  CellRangeApi,
+  CopyStatus,
+  GridCellPosition,
+} from "@/components/data-table/types";
+import { isPositionInRange } from "@/components/data-table/utils/cellRange";
+
+interface UseDataTableCellRangeProps {
+  tableContainerRef: React.RefObject<HTMLDivElement | null>;
+}
+
+interface UseDataTableCellRangeReturn {
+  cellRange: CellRangeApi;
+}
+
+// Distance from the container edge that scrolls while dragging, and the speed
+const DRAG_SCROLL_EDGE = 32;
+const DRAG_SCROLL_STEP = 16;
+
+// Time the outcome of a copy stays in the footer
+const COPY_STATUS_DURATION = 3000;
+
+export function useDataTableCellRange({
+  tableContainerRef,
+}: UseDataTableCellRangeProps): UseDataTableCellRangeReturn {
+  const [range, setRange] = React.useState<CellRange | null>(null);
+  const [copyStatus, setCopyStatus] = React.useState<CopyStatus | null>(null);
+  const isDraggingRef = React.useRef(false);
+
+  // End the drag and stop auto-scrolling on pointer release anywhere
+  const dragCleanupRef = React.useRef<(() => void) | null>(null);
+  React.useEffect(() => () => dragCleanupRef.current?.(), []);
+
+  const startDrag = React.useCallback(() => {
+    dragCleanupRef.current?.();
+    isDraggingRef.current = true;
+
+    let scrollStep = 0;
+    let frame = 0;
+    const scroll = () => {
+      const container = tableContainerRef.current;
+      if (container && scrollStep !== 0) {
+        container.scrollTop += scrollStep;
+        frame = requestAnimationFrame(scroll);
+      } else {
+        frame = 0;
+      }
+    };
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const container = tableContainerRef.current;
+      if (!container) return;
+      const rect = container.getBoundingClientRect();
+      scrollStep =
+        event.clientY > rect.bottom - DRAG_SCROLL_EDGE
+          ? DRAG_SCROLL_STEP
+          : event.clientY < rect.top + DRAG_SCROLL_EDGE
+            ? -DRAG_SCROLL_STEP
+            : 0;
+      if (scrollStep !== 0 && frame === 0) {
+        frame = requestAnimationFrame(scroll);
+      }
+    };
+
+    const cleanup = () => {
+      isDraggingRef.current = false;
+      cancelAnimationFrame(frame);
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", cleanup);
+      dragCleanupRef.current = null;
+    };
+
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", cleanup);
+    dragCleanupRef.current = cleanup;
+  }, [tableContainerRef]);
+
+  const startSelection = React.useCallback(
+    (position: GridCellPosition, extend: boolean) => {
+      setRange((old) => ({
+        anchor: extend && old ? old.anchor : position,
+        focus: position,
+      }));
+      startDrag();
+    },
+    [startDrag],
+  );
+
+  const extendSelection = React.useCallback((position: GridCellPosition) => {
+    if (!isDraggingRef.current) return;
+    setRange((old) =>
+      old &&
+      (old.focus.rowIndex !== position.rowIndex ||
+        old.focus.columnIndex !== position.columnIndex)
+        ? { ...old, focus: position }
+        : old,
+    );
+  }, []);
+
+  // A single cell is just the focused cell, so only larger ranges are highlighted
+  const isCellInRange = React.useCallback(
+    (position: GridCellPosition) =>
+      range !== null &&
+      (range.anchor.rowIndex !== range.focus.rowIndex ||
+        range.anchor.columnIndex !== range.focus.columnIndex) &&
+      isPositionInRange(range, position),
+    [range],
+  );
+
+  const copyStatusTimeoutRef =
+    React.useRef<ReturnType<typeof setTimeout>>(undefined);
+  React.useEffect(() => () => clearTimeout(copyStatusTimeoutRef.current), []);
+
+  const reportCopyStatus = React.useCallback((status: CopyStatus) => {
+    clearTimeout(copyStatusTimeoutRef.current);
+    setCopyStatus(status);
+    copyStatusTimeoutRef.current = setTimeout(
+      () => setCopyStatus(null),
+      COPY_STATUS_DURATION,
+    );
+  }, []);
+
+  const cellRange = React.useMemo<CellRangeApi>(
+    () => ({
+      range,
+      setRange,
+      copyStatus,
+      reportCopyStatus,
+      startSelection,
+      extendSelection,
+      isCellInRange,
+    }),
+    [
+      range,
+      copyStatus,
+      reportCopyStatus,
+      startSelection,
+      extendSelection,
+      isCellInRange,
+    ],
+  );
+
+  return { cellRange };
+}
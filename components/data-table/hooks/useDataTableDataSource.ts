@@ -0,0 +1,90 @@
+/**
+ * Hook that loads the rows of the current page from a server-side DataSource.
+ * Refetches whenever sorting, filters, grouping or pagination change, cancels
+ * in-flight requests that have been superseded and exposes loading and error
+ * states for the table structure to render.
+ */
+
+import * as React from "react";
+import {
+  ColumnFiltersState,
+  GroupingState,
+  PaginationState,
+  SortingState,
+} from "@tanstack/react-table";
+import { DataSource } from "@/components/data-table/types";
+
+interface UseDataTableDataSourceProps<TData> {
+  dataSource?: DataSource<TData>;
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
+  globalFilter: string;
+  grouping: GroupingState;
+  pagination: PaginationState;
+}
+
+interface UseDataTableDataSourceReturn<TData> {
+  rows: TData[];
+  rowCount: number;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+export function useDataTableDataSource<TData>({
+  dataSource,
+  sorting,
+  columnFilters,
+  globalFilter,
+  grouping,
+  pagination,
+}: UseDataTableDataSourceProps<TData>): UseDataTableDataSourceReturn<TData> {
+  const [rows, setRows] = React.useState<TData[]>([]);
+  const [rowCount, setRowCount] = React.useState(0);
+  const [isLoading, setIsLoading] = React.useState(Boolean(dataSource));
+  const [error, setError] = React.useState<Error | null>(null);
+  // Bumped to force a new request with an unchanged query
+  const [requestCounter, setRequestCounter] = React.useState(0);
+
+  React.useEffect(() => {
+    if (!dataSource) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+
+    dataSource
+      .fetchRows(
+        { sorting, columnFilters, globalFilter, grouping, pagination },
+        { signal: controller.signal },
+      )
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        setRows(result.rows);
+        setRowCount(result.rowCount);
+        setIsLoading(false);
+      })
+      .catch((reason: unknown) => {
+        // Superseded requests are expected and not an error
+        if (controller.signal.aborted) return;
+        setError(reason instanceof Error ? reason : new Error(String(reason)));
+        setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [
+    dataSource,
+    sorting,
+    columnFilters,
+    globalFilter,
+    grouping,
+    pagination,
+    requestCounter,
+  ]);
+
+  const refetch = React.useCallback(() => {
+    setRequestCounter((count) => count + 1);
+  }, []);
+
+  return { rows, rowCount, isLoading, error, refetch };
+}
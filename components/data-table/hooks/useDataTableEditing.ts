@@ -0,0 +1,301 @@
+/**
+ * Hook that implements inline cell editing. Tracks the cell being edited,
+ * validates edited values and keeps edits as optimistic overrides on top of the
+ * table data: an override is shown while onCellEdit is pending, rolled back when
+ * it rejects, and dropped once the host passes in new data.
+ */
+
+import * as React from "react";
+import { Table as ReactTable } from "@tanstack/react-table";
+import {
+  CellEditEvent,
+  CellEditingApi,
+  DataTableProps,
+} from "@/components/data-table/types";
+import {
+  getCellEditorConfig,
+  isCellEditable,
+  isSameCellValue,
+  writeCellValue,
+} from "@/components/data-table/utils/cellEditing";
+
+interface CellOverride<TData> {
+  editId: number;
+  value: unknown;
+  status: "pending" | "committed";
+  // Applies the edited value to the original row
+  write: (original: TData) => TData;
+}
+
+// Overrides by row id, then by column id
+type CellOverrides<TData> = Record<string, Record<string, CellOverride<TData>>>;
+
+type EditingCell = CellEditingApi["editingCell"];
+
+// Copy of a record without one of its keys
+function omitKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const rest = { ...record };
+  delete rest[key];
+  return rest;
+}
+
+interface UseDataTableEditingProps<TData> {
+  data: TData[];
+  getRowId?: DataTableProps<TData, unknown>["getRowId"];
+  getSubRows?: DataTableProps<TData, unknown>["getSubRows"];
+  onCellEdit?: (edit: CellEditEvent<TData>) => void | Promise<void>;
+  tableRef: React.MutableRefObject<ReactTable<TData> | null>;
+}
+
+interface UseDataTableEditingReturn<TData> {
+  // Table data with the optimistic edits applied
+  editedData: TData[];
+  // Child rows of the edited data, for nested tree data
+  getEditedSubRows?: DataTableProps<TData, unknown>["getSubRows"];
+  editing: CellEditingApi;
+}
+
+export function useDataTableEditing<TData>({
+  data,
+  getRowId,
+  getSubRows,
+  onCellEdit,
+  tableRef,
+}: UseDataTableEditingProps<TData>): UseDataTableEditingReturn<TData> {
+  const [editingCell, setEditingCell] = React.useState<EditingCell>(null);
+  const [overrides, setOverrides] = React.useState<CellOverrides<TData>>({});
+  const [cellErrors, setCellErrors] = React.useState<Record<string, string>>(
+    {},
+  );
+
+  // Read from the stable callbacks below
+  const editingCellRef = React.useRef(editingCell);
+  editingCellRef.current = editingCell;
+  const onCellEditRef = React.useRef(onCellEdit);
+  onCellEditRef.current = onCellEdit;
+  const nextEditIdRef = React.useRef(0);
+
+  const getErrorKey = (rowId: string, columnId: string) =>
+    `${rowId}\u0000${columnId}`;
+
+  // Committed edits are superseded by new data from the host
+  React.useEffect(() => {
+    setOverrides((old) => {
+      let hasCommitted = false;
+      const next: CellOverrides<TData> = {};
+      Object.entries(old).forEach(([rowId, rowOverrides]) => {
+        const pending = Object.entries(rowOverrides).filter(
+          ([, override]) => override.status === "pending",
+        );
+        hasCommitted ||= pending.length < Object.keys(rowOverrides).length;
+        if (pending.length > 0) next[rowId] = Object.fromEntries(pending);
+      });
+      return hasCommitted ? next : old;
+    });
+  }, [data]);
+
+  const { editedData, getEditedSubRows } = React.useMemo(() => {
+    if (Object.keys(overrides).length === 0) {
+      return { editedData: data, getEditedSubRows: getSubRows };
+    }
+
+    // Edited rows are copies, so their children are looked up by the copy
+    const editedSubRows = new Map<TData, TData[]>();
+
+    // Row ids are derived like TanStack Table does: nested rows without getRowId
+    // are keyed by their path, e.g. "0.1"
+    const applyOverrides = (rows: TData[], parentId?: string): TData[] =>
+      rows.map((original, index) => {
+        const rowId = getRowId
+          ? getRowId(original, index)
+          : parentId === undefined
+            ? String(index)
+            : `${parentId}.${index}`;
+        const rowOverrides = overrides[rowId];
+        const row = rowOverrides
+          ? Object.values(rowOverrides).reduce(
+              (edited, override) => override.write(edited),
+              original,
+            )
+          : original;
+
+        const subRows = getSubRows?.(original, index);
+        if (subRows) editedSubRows.set(row, applyOverrides(subRows, rowId));
+        return row;
+      });
+
+    return {
+      editedData: applyOverrides(data),
+      getEditedSubRows: getSubRows && ((row: TData) => editedSubRows.get(row)),
+    };
+  }, [data, overrides, getRowId, getSubRows]);
+
+  // Replace or remove the override of one cell, if it still belongs to the edit
+  const updateOverride = React.useCallback(
+    (
+      rowId: string,
+      columnId: string,
+      editId: number,
+      update: (override: CellOverride<TData>) => CellOverride<TData> | null,
+    ) => {
+      setOverrides((old) => {
+        const override = old[rowId]?.[columnId];
+        if (!override || override.editId !== editId) return old;
+
+        const otherColumns = omitKey(old[rowId], columnId);
+        const updated = update(override);
+        const rowOverrides = updated
+          ? { ...otherColumns, [columnId]: updated }
+          : otherColumns;
+
+        const otherRows = omitKey(old, rowId);
+        return Object.keys(rowOverrides).length > 0
+          ? { ...otherRows, [rowId]: rowOverrides }
+          : otherRows;
+      });
+    },
+    [],
+  );
+
+  const startEditing = React.useCallback((rowId: string, columnId: string) => {
+    setCellErrors((old) => {
+      const key = getErrorKey(rowId, columnId);
+      return key in old ? omitKey(old, key) : old;
+    });
+    setEditingCell({ rowId, columnId });
+  }, []);
+
+  const cancelEditing = React.useCallback(() => setEditingCell(null), []);
+
+  // Start editing the next editable cell of the row in the given direction
+  const moveEditing = React.useCallback(
+    (rowId: string, columnId: string, direction: 1 | -1) => {
+      const table = tableRef.current;
+      const row = table?.getRow(rowId, true);
+      if (!row) return;
+
+      const cells = row.getVisibleCells();
+      const index = cells.findIndex((cell) => cell.column.id === columnId);
+      for (
+        let next = index + direction;
+        next >= 0 && next < cells.length;
+        next += direction
+      ) {
+        if (isCellEditable(row, cells[next].column)) {
+          startEditing(rowId, cells[next].column.id);
+          return;
+        }
+      }
+    },
+    [tableRef, startEditing],
+  );
+
+  const commitEdit = React.useCallback(
+    (value: unknown, moveBy?: 1 | -1): string | null => {
+      const cell = editingCellRef.current;
+      const table = tableRef.current;
+      if (!cell || !table) return null;
+
+      const row = table.getRow(cell.rowId, true);
+      const column = table.getColumn(cell.columnId);
+      if (!row || !column) return null;
+
+      // Validate and convert the value with the column's schema
+      const config = getCellEditorConfig(column.columnDef);
+      let newValue = value;
+      if (config?.schema) {
+        const result = config.schema.safeParse(value);
+        if (!result.success) {
+          return result.error.issues[0]?.message ?? "Invalid value";
+        }
+        newValue = result.data;
+      }
+
+      setEditingCell(null);
+      if (moveBy) moveEditing(cell.rowId, cell.columnId, moveBy);
+
+      const oldValue = row.getValue(cell.columnId);
+      if (isSameCellValue(oldValue, newValue)) return null;
+
+      // Show the new value right away
+      const editId = nextEditIdRef.current++;
+      const { columnDef } = column;
+      setOverrides((old) => ({
+        ...old,
+        [cell.rowId]: {
+          ...old[cell.rowId],
+          [cell.columnId]: {
+            editId,
+            value: newValue,
+            status: "pending",
+            write: (original) => writeCellValue(original, columnDef, newValue),
+          },
+        },
+      }));
+
+      const rollback = (error: unknown) => {
+        updateOverride(cell.rowId, cell.columnId, editId, () => null);
+        setCellErrors((old) => ({
+          ...old,
+          [getErrorKey(cell.rowId, cell.columnId)]:
+            error instanceof Error ? error.message : "The edit was rejected",
+        }));
+      };
+      const markCommitted = () =>
+        updateOverride(cell.rowId, cell.columnId, editId, (override) => ({
+          ...override,
+          status: "committed",
+        }));
+
+      try {
+        const result = onCellEditRef.current?.({
+          rowId: cell.rowId,
+          columnId: cell.columnId,
+          oldValue,
+          newValue,
+          row: row.original,
+        });
+        // Also settles thenables and promises from other realms
+        Promise.resolve(result).then(markCommitted, rollback);
+      } catch (error) {
+        rollback(error);
+      }
+
+      return null;
+    },
+    [tableRef, moveEditing, updateOverride],
+  );
+
+  const isCellPending = React.useCallback(
+    (rowId: string, columnId: string) =>
+      overrides[rowId]?.[columnId]?.status === "pending",
+    [overrides],
+  );
+
+  const getCellError = React.useCallback(
+    (rowId: string, columnId: string) =>
+      cellErrors[getErrorKey(rowId, columnId)],
+    [cellErrors],
+  );
+
+  const editing = React.useMemo<CellEditingApi>(
+    () => ({
+      editingCell,
+      startEditing,
+      cancelEditing,
+      commitEdit,
+      isCellPending,
+      getCellError,
+    }),
+    [
+      editingCell,
+      startEditing,
+      cancelEditing,
+      commitEdit,
+      isCellPending,
+      getCellError,
+    ],
+  );
+
+  return { editedData, getEditedSubRows, editing };
+}
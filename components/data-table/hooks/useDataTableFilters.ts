@@ -7,12 +7,21 @@
 
 import * as React from "react";
 import { ColumnFiltersState } from "@tanstack/react-table";
-import { ColumnFilter, FilterOption } from "@/components/data-table/types";
+import {
+  ColumnFilter,
+  DataTableState,
+  FilterOption,
+} from "@/components/data-table/types";
 import type { ColumnDef } from "@tanstack/react-table";
+import { useControllableState } from "@/components/data-table/hooks/useControllableState";
+import { StateSliceChangeHandler } from "@/components/data-table/hooks/useDataTableState";
 
 interface UseDataTableFiltersProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
   columnFilters?: ColumnFilter[];
+  state?: Partial<DataTableState>;
+  initialState?: Partial<DataTableState>;
+  onStateSliceChange?: StateSliceChangeHandler;
 }
 
 interface UseDataTableFiltersReturn {
@@ -28,11 +37,22 @@ interface UseDataTableFiltersReturn {
 export function useDataTableFilters<TData, TValue>({
   columns,
   columnFilters = [],
+  state,
+  initialState,
+  onStateSliceChange,
 }: UseDataTableFiltersProps<TData, TValue>): UseDataTableFiltersReturn {
-  // Filter states
+  // Filter states, optionally controlled by the host
   const [columnFiltersState, setColumnFiltersState] =
-    React.useState<ColumnFiltersState>([]);
-  const [globalFilter, setGlobalFilter] = React.useState<string>("");
+    useControllableState<ColumnFiltersState>({
+      value: state?.columnFilters,
+      defaultValue: initialState?.columnFilters ?? [],
+      onChange: (value) => onStateSliceChange?.("columnFilters", value),
+    });
+  const [globalFilter, setGlobalFilter] = useControllableState<string>({
+    value: state?.globalFilter,
+    defaultValue: initialState?.globalFilter ?? "",
+    onChange: (value) => onStateSliceChange?.("globalFilter", value),
+  });
 
   // Auto-discovered column filters
   const discoveredColumnFilters = React.useMemo(() => {
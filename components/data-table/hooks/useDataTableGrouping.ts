@@ -6,6 +6,9 @@
 
 import * as React from "react";
 import { GroupingState, ExpandedState, ColumnDef } from "@tanstack/react-table";
+import { DataTableState } from "@/components/data-table/types";
+import { useControllableState } from "@/components/data-table/hooks/useControllableState";
+import { StateSliceChangeHandler } from "@/components/data-table/hooks/useDataTableState";
 
 interface UseDataTableGroupingProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
@@ -13,6 +16,9 @@ interface UseDataTableGroupingProps<TData, TValue> {
   groupableColumns?: string[];
   defaultExpanded?: boolean | number | Record<string, boolean>;
   defaultGrouping?: string[];
+  state?: Partial<DataTableState>;
+  initialState?: Partial<DataTableState>;
+  onStateSliceChange?: StateSliceChangeHandler;
 }
 
 interface UseDataTableGroupingReturn {
@@ -31,20 +37,31 @@ export function useDataTableGrouping<TData, TValue>({
   groupableColumns = [],
   defaultExpanded,
   defaultGrouping,
+  state,
+  initialState,
+  onStateSliceChange,
 }: UseDataTableGroupingProps<TData, TValue>): UseDataTableGroupingReturn {
-  // Grouping states
-  const [grouping, setGrouping] = React.useState<GroupingState>(
-    defaultGrouping ?? [],
-  );
-  const [expanded, setExpanded] = React.useState<ExpandedState>(() => {
-    if (defaultExpanded === true) {
-      return true; // Expand all
-    } else if (typeof defaultExpanded === "object") {
-      return defaultExpanded; // Expand specific groups
-    } else {
-      // Covers false, undefined, and now number
-      return {}; // Default: no expansion
-    }
+  // Grouping states, optionally controlled by the host
+  const [grouping, setGrouping] = useControllableState<GroupingState>({
+    value: state?.grouping,
+    defaultValue: initialState?.grouping ?? defaultGrouping ?? [],
+    onChange: (value) => onStateSliceChange?.("grouping", value),
+  });
+  const [expanded, setExpanded] = useControllableState<ExpandedState>({
+    value: state?.expanded,
+    defaultValue: () => {
+      if (initialState?.expanded !== undefined) {
+        return initialState.expanded;
+      } else if (defaultExpanded === true) {
+        return true; // Expand all
+      } else if (typeof defaultExpanded === "object") {
+        return defaultExpanded; // Expand specific groups
+      } else {
+        // Covers false, undefined, and now number
+        return {}; // Default: no expansion
+      }
+    },
+    onChange: (value) => onStateSliceChange?.("expanded", value),
   });
   const [isGroupingDialogOpen, setIsGroupingDialogOpen] = React.useState(false);
 
@@ -8,33 +8,95 @@ import * as React from "react";
 import {
   useReactTable,
   getCoreRowModel,
-  getSortedRowModel,
-  getFilteredRowModel,
-  getGroupedRowModel,
   getExpandedRowModel,
+  getPaginationRowModel,
   Table as ReactTable,
   Row,
-  aggregationFns,
+  ColumnDef,
   GroupingState,
   ExpandedState,
 } from "@tanstack/react-table";
-import { DataTableProps, ColumnFilter } from "@/components/data-table/types";
+import {
+  DataTableProps,
+  DataTableState,
+  DataTableStateChangeHandlers,
+  ColumnFilter,
+  CellRangeStats,
+  CopyStatus,
+  PivotState,
+  ConditionalFormatRule,
+} from "@/components/data-table/types";
 import {
   numberRangeFilterFn,
   starRatingFilterFn,
 } from "@/components/data-table/utils/filterFunctions";
+import { getGroupAwareSortedRowModel } from "@/components/data-table/utils/sorting";
+import { getPivotGroupedRowModel } from "@/components/data-table/utils/pivot";
+import {
+  applyColumnAggregations,
+  getAggregatedGroupedRowModel,
+} from "@/components/data-table/utils/columnAggregations";
+import {
+  buildParentIdTree,
+  getTreeFilteredRowModel,
+} from "@/components/data-table/utils/treeData";
 import {
-  firstAggregation,
-  lastAggregation,
-  sparklineAggregation,
-  AggregationFunction,
-} from "@/components/data-table/utils/aggregationFunctions";
+  getRangeCells,
+  getRangeStats,
+} from "@/components/data-table/utils/cellRange";
+import {
+  bindAggregationOptions,
+  getAggregationFns,
+} from "@/components/data-table/utils/aggregationRegistry";
 
 // Import custom hooks
 import { useDataTableFilters } from "@/components/data-table/hooks/useDataTableFilters";
 import { useDataTableGrouping } from "@/components/data-table/hooks/useDataTableGrouping";
-import { useDataTableState } from "@/components/data-table/hooks/useDataTableState";
+import {
+  useDataTableState,
+  StateSliceChangeHandler,
+} from "@/components/data-table/hooks/useDataTableState";
 import { useDataTableRefs } from "@/components/data-table/hooks/useDataTableRefs";
+import { useDataTableDataSource } from "@/components/data-table/hooks/useDataTableDataSource";
+import { useDataTableUrlState } from "@/components/data-table/hooks/useDataTableUrlState";
+import { useDataTableEditing } from "@/components/data-table/hooks/useDataTableEditing";
+import { useDataTableCellRange } from "@/components/data-table/hooks/useDataTableCellRange";
+import { useDataTablePivot } from "@/components/data-table/hooks/useDataTablePivot";
+import {
+  SELECTION_COLUMN_ID,
+  createSelectionColumn,
+} from "@/components/data-table/ui/row/SelectionColumn";
+import {
+  DETAIL_PANEL_COLUMN_ID,
+  createDetailPanelColumn,
+} from "@/components/data-table/ui/row/DetailPanelColumn";
+
+// Stable fallback so that a missing data prop doesn't retrigger row model computation
+const EMPTY_DATA: never[] = [];
+
+// Tree data is never grouped by column values
+const NO_GROUPING: GroupingState = [];
+
+// Maps each state slice to its per-slice change callback prop
+const STATE_SLICE_CALLBACKS: {
+  [K in keyof DataTableState]: keyof DataTableStateChangeHandlers;
+} = {
+  sorting: "onSortingChange",
+  columnFilters: "onColumnFiltersChange",
+  globalFilter: "onGlobalFilterChange",
+  grouping: "onGroupingChange",
+  expanded: "onExpandedChange",
+  columnVisibility: "onColumnVisibilityChange",
+  columnOrder: "onColumnOrderChange",
+  columnSizing: "onColumnSizingChange",
+  columnPinning: "onColumnPinningChange",
+  pagination: "onPaginationChange",
+  rowSelection: "onRowSelectionChange",
+  pivot: "onPivotChange",
+  conditionalFormats: "onConditionalFormatsChange",
+  columnAggregations: "onColumnAggregationsChange",
+  aggregationWeights: "onAggregationWeightsChange",
+};
 
 // Define the explicit return type for the hook
 interface UseDataTableLogicReturn<TData> {
@@ -55,19 +117,75 @@ interface UseDataTableLogicReturn<TData> {
   columnOrder: string[];
   setColumnOrder: React.Dispatch<React.SetStateAction<string[]>>;
   discoveredColumnFilters: ColumnFilter[];
+  isServerSide: boolean;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+  totalRowCount: number;
+  isPaginated: boolean;
+  getSelectedRows: () => TData[];
+  cellRangeStats: CellRangeStats | null;
+  copyStatus: CopyStatus | null;
+  pivot: PivotState;
+  setPivot: React.Dispatch<React.SetStateAction<PivotState>>;
+  isPivotAvailable: boolean;
+  conditionalFormats: ConditionalFormatRule[];
+  setConditionalFormats: React.Dispatch<
+    React.SetStateAction<ConditionalFormatRule[]>
+  >;
 }
 
 // --- Custom Hook: useDataTableLogic ---
-export function useDataTableLogic<TData, TValue>({
-  data,
-  columns,
-  enableGrouping = false,
-  groupableColumns = [],
-  columnFilters = [],
-  defaultPageSize = 50,
-  defaultExpanded,
-  defaultGrouping,
-}: DataTableProps<TData, TValue>): UseDataTableLogicReturn<TData> {
+export function useDataTableLogic<TData, TValue>(
+  props: DataTableProps<TData, TValue>,
+): UseDataTableLogicReturn<TData> {
+  const {
+    data = EMPTY_DATA,
+    dataSource,
+    columns,
+    enableGrouping = false,
+    groupableColumns = [],
+    columnFilters = [],
+    defaultPageSize = 50,
+    defaultExpanded,
+    defaultGrouping,
+    state,
+    initialState,
+    urlState,
+    enableRowSelection = false,
+    enablePagination = false,
+    getRowId,
+    getSubRows,
+    getParentId,
+    onCellEdit,
+    renderDetailPanel,
+    conditionalFormats: defaultConditionalFormats,
+  } = props;
+
+  // Latest props and full state, read by the change notifier below
+  const propsRef = React.useRef(props);
+  propsRef.current = props;
+  const latestStateRef = React.useRef<DataTableState | null>(null);
+
+  // Tree data nests rows under their parents instead of grouping them
+  const isTreeData = Boolean(getSubRows || getParentId);
+
+  // Notify the host of a changed slice through the per-slice callback and onStateChange
+  const handleStateSliceChange = React.useCallback<StateSliceChangeHandler>(
+    (key, value) => {
+      const callback = propsRef.current[STATE_SLICE_CALLBACKS[key]] as
+        | ((value: DataTableState[typeof key]) => void)
+        | undefined;
+      callback?.(value);
+
+      if (latestStateRef.current) {
+        latestStateRef.current = { ...latestStateRef.current, [key]: value };
+        propsRef.current.onStateChange?.(latestStateRef.current);
+      }
+    },
+    [],
+  );
+
   // Use the custom hooks
   const {
     columnFiltersState,
@@ -75,7 +193,13 @@ export function useDataTableLogic<TData, TValue>({
     globalFilter,
     setGlobalFilter,
     discoveredColumnFilters,
-  } = useDataTableFilters({ columns, columnFilters });
+  } = useDataTableFilters({
+    columns,
+    columnFilters,
+    state,
+    initialState,
+    onStateSliceChange: handleStateSliceChange,
+  });
 
   const {
     grouping,
@@ -87,10 +211,13 @@ export function useDataTableLogic<TData, TValue>({
     groupableColumnObjects,
   } = useDataTableGrouping({
     columns,
-    enableGrouping,
+    enableGrouping: enableGrouping && !isTreeData,
     groupableColumns,
     defaultExpanded,
     defaultGrouping,
+    state,
+    initialState,
+    onStateSliceChange: handleStateSliceChange,
   });
 
   const {
@@ -100,10 +227,29 @@ export function useDataTableLogic<TData, TValue>({
     setColumnVisibility,
     columnOrder,
     setColumnOrder,
+    columnSizing,
+    setColumnSizing,
+    columnPinning,
+    setColumnPinning,
     pagination,
     setPagination,
+    rowSelection,
+    setRowSelection,
+    conditionalFormats,
+    setConditionalFormats,
+    columnAggregations,
+    setColumnAggregations,
+    aggregationWeights,
+    setAggregationWeights,
     createTableMeta,
-  } = useDataTableState({ defaultPageSize, isMountedRef: React.useRef(false) });
+  } = useDataTableState({
+    defaultPageSize,
+    defaultConditionalFormats,
+    isMountedRef: React.useRef(false),
+    state,
+    initialState,
+    onStateSliceChange: handleStateSliceChange,
+  });
 
   const {
     isClient,
@@ -114,57 +260,268 @@ export function useDataTableLogic<TData, TValue>({
     tableRef,
   } = useDataTableRefs<TData>();
 
+  // Server-side mode: rows of the current page come from the data source
+  const isServerSide = Boolean(dataSource);
+  const {
+    rows: serverRows,
+    rowCount: serverRowCount,
+    isLoading,
+    error,
+    refetch,
+  } = useDataTableDataSource<TData>({
+    dataSource,
+    sorting,
+    columnFilters: columnFiltersState,
+    globalFilter,
+    grouping,
+    pagination,
+  });
+
+  // Inline editing shows edits optimistically on top of the data
+  const { editedData, getEditedSubRows, editing } = useDataTableEditing<TData>({
+    data: isServerSide ? serverRows : data,
+    getRowId,
+    // Flat getParentId data keeps the ids of the rows in the flat list
+    getSubRows: getParentId ? undefined : getSubRows,
+    onCellEdit,
+    tableRef,
+  });
+
+  const { treeRows, getTreeSubRows, getTreeRowId } = React.useMemo(() => {
+    if (!getParentId) {
+      return {
+        treeRows: editedData,
+        getTreeSubRows: getEditedSubRows,
+        getTreeRowId: getRowId,
+      };
+    }
+    const tree = buildParentIdTree(editedData, getParentId, getRowId);
+    return {
+      treeRows: tree.rows,
+      getTreeSubRows: tree.getSubRows,
+      getTreeRowId: tree.getRowId,
+    };
+  }, [editedData, getEditedSubRows, getParentId, getRowId]);
+
+  // Aggregation functions available to columns by name, from the registry
+  const registeredAggregationFns = getAggregationFns();
+
+  // Weighted aggregations read their weight column from the column definition;
+  // pivot columns carry the weight column of their value column
+  const tableAggregationFns = React.useMemo(
+    () =>
+      bindAggregationOptions(registeredAggregationFns, (columnId) => ({
+        weightColumnId:
+          tableRef.current?.getColumn(columnId)?.columnDef.meta?.weightColumn,
+      })),
+    [registeredAggregationFns, tableRef],
+  );
+
+  // Columns aggregated as chosen per column in the column menus
+  const aggregatedColumns = React.useMemo(
+    () =>
+      applyColumnAggregations(columns, columnAggregations, aggregationWeights),
+    [columns, columnAggregations, aggregationWeights],
+  );
+
+  // Pivot tables are computed from the rows in the browser
+  const isPivotAvailable = enableGrouping && !isServerSide && !isTreeData;
+  const { pivot, setPivot, isPivotMode, pivotColumns, pivotColumnVisibility } =
+    useDataTablePivot<TData, TValue>({
+      columns: aggregatedColumns,
+      data: editedData,
+      aggregationFns: tableAggregationFns,
+      isAvailable: isPivotAvailable,
+      state,
+      initialState,
+      onStateSliceChange: handleStateSliceChange,
+    });
+
+  latestStateRef.current = {
+    sorting,
+    columnFilters: columnFiltersState,
+    globalFilter,
+    grouping,
+    expanded,
+    columnVisibility,
+    columnOrder,
+    columnSizing,
+    columnPinning,
+    pagination,
+    rowSelection,
+    pivot,
+    conditionalFormats,
+    columnAggregations,
+    aggregationWeights,
+  };
+
+  // Rectangular cell selection for copying and the footer statistics
+  const { cellRange } = useDataTableCellRange({ tableContainerRef });
+
+  // Pivot rows are groups, which can't be selected or show details
+  const hasSelectionColumn = enableRowSelection && !isPivotMode;
+  const hasDetailPanelColumn = Boolean(renderDetailPanel) && !isPivotMode;
+
+  // Built-in columns that stay in front of the data columns
+  const leadingColumnIds = React.useMemo(
+    () => [
+      ...(hasSelectionColumn ? [SELECTION_COLUMN_ID] : []),
+      ...(hasDetailPanelColumn ? [DETAIL_PANEL_COLUMN_ID] : []),
+    ],
+    [hasSelectionColumn, hasDetailPanelColumn],
+  );
+
+  // Prepend the checkbox column when row selection is enabled and the detail
+  // toggle column when rows have detail panels, and append the generated
+  // columns in pivot mode
+  const tableColumns = React.useMemo(
+    () =>
+      isPivotMode
+        ? [
+            ...aggregatedColumns,
+            ...(pivotColumns as ColumnDef<TData, TValue>[]),
+          ]
+        : [
+            ...(hasSelectionColumn ? [createSelectionColumn<TData>()] : []),
+            ...(hasDetailPanelColumn ? [createDetailPanelColumn<TData>()] : []),
+            ...aggregatedColumns,
+          ],
+    [
+      isPivotMode,
+      pivotColumns,
+      hasSelectionColumn,
+      hasDetailPanelColumn,
+      aggregatedColumns,
+    ],
+  );
+
+  // In pivot mode only the row group and generated columns are shown, grouped
+  // by and pinned to the row columns, in the order of the pivot
+  const tableGrouping = isPivotMode
+    ? pivot.rows
+    : isTreeData
+      ? NO_GROUPING
+      : grouping;
+  const tableColumnVisibility = React.useMemo(
+    () =>
+      isPivotMode
+        ? { ...columnVisibility, ...pivotColumnVisibility }
+        : columnVisibility,
+    [isPivotMode, columnVisibility, pivotColumnVisibility],
+  );
+
+  // Keep the built-in columns first, whatever order the user chose
+  const tableColumnOrder = React.useMemo(
+    () =>
+      isPivotMode
+        ? []
+        : leadingColumnIds.length > 0 && columnOrder.length > 0
+          ? [
+              ...leadingColumnIds,
+              ...columnOrder.filter((id) => !leadingColumnIds.includes(id)),
+            ]
+          : columnOrder,
+    [isPivotMode, leadingColumnIds, columnOrder],
+  );
+
+  // The built-in columns stay frozen at the left edge
+  const tableColumnPinning = React.useMemo(
+    () =>
+      isPivotMode
+        ? { left: pivot.rows, right: [] }
+        : leadingColumnIds.length > 0
+          ? {
+              ...columnPinning,
+              left: [
+                ...leadingColumnIds,
+                ...(columnPinning.left ?? []).filter(
+                  (id) => !leadingColumnIds.includes(id),
+                ),
+              ],
+            }
+          : columnPinning,
+    [isPivotMode, pivot.rows, leadingColumnIds, columnPinning],
+  );
+
   // Table Instance
   const table = useReactTable<TData>({
-    data,
-    columns,
+    data: treeRows,
+    columns: tableColumns,
+    getRowId: getTreeRowId,
+    getSubRows: getTreeSubRows,
     getCoreRowModel: getCoreRowModel(),
     onSortingChange: setSorting,
-    getSortedRowModel: getSortedRowModel(),
+    // Sorting orders rows within their group rather than reordering groups
+    getSortedRowModel: getGroupAwareSortedRowModel(),
     onColumnFiltersChange: setColumnFiltersState,
-    getFilteredRowModel: getFilteredRowModel(),
+    // Rolls child values up into the parent rows of tree data
+    getFilteredRowModel: getTreeFilteredRowModel(),
+    // Parent rows of tree data stay visible when a child row matches
+    filterFromLeafRows: isTreeData,
     onGlobalFilterChange: setGlobalFilter,
     onColumnVisibilityChange: setColumnVisibility,
     onColumnOrderChange: setColumnOrder,
+    onColumnSizingChange: setColumnSizing,
+    onColumnPinningChange: setColumnPinning,
     onGroupingChange: setGrouping,
-    getGroupedRowModel: enableGrouping ? getGroupedRowModel() : undefined,
+    // Leaves the leaf rows out of the row groups in pivot mode
+    getGroupedRowModel: enableGrouping
+      ? getPivotGroupedRowModel(getAggregatedGroupedRowModel())
+      : undefined,
     onExpandedChange: setExpanded,
+    // The innermost row groups are the rows of a pivot, and with detail
+    // panels every row expands
+    getRowCanExpand: isPivotMode
+      ? (row) => row.depth < pivot.rows.length - 1
+      : hasDetailPanelColumn
+        ? () => true
+        : undefined,
     getExpandedRowModel: getExpandedRowModel(),
     onPaginationChange: setPagination,
+    getPaginationRowModel: enablePagination
+      ? getPaginationRowModel()
+      : undefined,
+    // Pages hold top-level rows (groups when grouped) and expanding a group
+    // doesn't push rows onto the next page. Without pagination the expanded row
+    // model has to expand the rows itself.
+    paginateExpandedRows: !enablePagination,
+    onRowSelectionChange: setRowSelection,
 
     state: {
       sorting,
       columnFilters: columnFiltersState,
       globalFilter,
-      columnVisibility,
-      grouping,
+      columnVisibility: tableColumnVisibility,
+      grouping: tableGrouping,
       expanded,
       pagination,
-      columnOrder,
+      columnOrder: tableColumnOrder,
+      columnSizing,
+      columnPinning: tableColumnPinning,
+      rowSelection,
     },
 
     filterFns: {
       numberRange: numberRangeFilterFn,
       starRating: starRatingFilterFn,
     },
-    aggregationFns: {
-      first: firstAggregation,
-      last: lastAggregation,
-      sparkline: sparklineAggregation,
-
-      sum: aggregationFns.sum,
-      count: aggregationFns.count,
-      min: aggregationFns.min,
-      max: aggregationFns.max,
-      mean: aggregationFns.mean,
-      median: aggregationFns.median,
-      unique: aggregationFns.unique,
-      uniqueCount: aggregationFns.uniqueCount,
-      extent: aggregationFns.extent,
-    } as Record<string, AggregationFunction>,
+    aggregationFns: tableAggregationFns,
 
     enableGrouping,
-    manualGrouping: !enableGrouping,
+    // Widths follow the pointer while dragging a resize handle
+    enableColumnResizing: true,
+    columnResizeMode: "onChange",
+    // Group header rows are selected through their leaf rows only
+    enableRowSelection: hasSelectionColumn
+      ? (row) => !row.getIsGrouped()
+      : false,
+    // In server-side mode the data source has already sorted, filtered,
+    // grouped and paginated the rows
+    manualSorting: isServerSide,
+    manualFiltering: isServerSide,
+    manualPagination: isServerSide,
+    manualGrouping: isServerSide || !enableGrouping,
+    rowCount: isServerSide ? serverRowCount : undefined,
     autoResetExpanded: false,
     defaultColumn: {
       size: 150,
@@ -172,9 +529,72 @@ export function useDataTableLogic<TData, TValue>({
       maxSize: 500,
     },
     autoResetPageIndex: false,
-    meta: createTableMeta<TData>(tableRef, grouping),
+    meta: {
+      ...createTableMeta(),
+      editing,
+      cellRange,
+      isPivotMode,
+      isTreeData,
+      renderDetailPanel: hasDetailPanelColumn ? renderDetailPanel : undefined,
+      conditionalFormats,
+      setConditionalFormats,
+      columnAggregations,
+      setColumnAggregations,
+      aggregationWeights,
+      setAggregationWeights,
+    },
     debugTable: true,
   });
+  tableRef.current = table;
+
+  // Optional sync of the table state with the URL query string
+  useDataTableUrlState({
+    table,
+    urlState,
+    defaultPageSize,
+    sorting,
+    grouping,
+    globalFilter,
+    columnFilters: columnFiltersState,
+    columnVisibility,
+    columnOrder,
+    pagination,
+  });
+
+  // Go back to the first page when the set of rows changes, unless the page was
+  // changed in the same update (e.g. when rehydrating from the URL)
+  const previousRowQueryRef = React.useRef({
+    columnFilters: columnFiltersState,
+    globalFilter,
+    grouping,
+    pagination,
+  });
+  React.useEffect(() => {
+    const previous = previousRowQueryRef.current;
+    previousRowQueryRef.current = {
+      columnFilters: columnFiltersState,
+      globalFilter,
+      grouping,
+      pagination,
+    };
+    const hasRowQueryChanged =
+      previous.columnFilters !== columnFiltersState ||
+      previous.globalFilter !== globalFilter ||
+      previous.grouping !== grouping;
+    if (
+      hasRowQueryChanged &&
+      previous.pagination === pagination &&
+      pagination.pageIndex !== 0
+    ) {
+      setPagination((old) => ({ ...old, pageIndex: 0 }));
+    }
+  }, [columnFiltersState, globalFilter, grouping, pagination, setPagination]);
+
+  // Start each page at the top of the scroll container
+  const { pageIndex, pageSize } = pagination;
+  React.useEffect(() => {
+    tableContainerRef.current?.scrollTo({ top: 0 });
+  }, [pageIndex, pageSize, tableContainerRef]);
 
   // Store table reference
   React.useEffect(() => {
@@ -184,9 +604,16 @@ export function useDataTableLogic<TData, TValue>({
   }, [table, tableRef]);
 
   // Effect to handle numeric defaultExpanded after rows are available
+  const hasExplicitExpanded =
+    initialState?.expanded !== undefined || state?.expanded !== undefined;
   React.useEffect(() => {
-    // Check if defaultExpanded is a number and greater than 0
-    if (typeof defaultExpanded === "number" && defaultExpanded > 0) {
+    // Check if defaultExpanded is a number and greater than 0. An explicit
+    // initial or controlled expanded state takes precedence.
+    if (
+      typeof defaultExpanded === "number" &&
+      defaultExpanded > 0 &&
+      !hasExplicitExpanded
+    ) {
       // Defer execution slightly to allow table rows to process
       const timeoutId = setTimeout(() => {
         const newExpandedState: ExpandedState = {};
@@ -210,15 +637,42 @@ export function useDataTableLogic<TData, TValue>({
     // Dependencies: run only when these change.
     // table instance should be stable, setExpanded is stable.
     // defaultExpanded triggers the effect if it changes.
-  }, [defaultExpanded, setExpanded, table]);
+  }, [defaultExpanded, hasExplicitExpanded, setExpanded, table]);
+
+  // Original data of the selected leaf rows, regardless of filters and grouping
+  const getSelectedRows = React.useCallback(
+    () => table.getSelectedRowModel().flatRows.map((row) => row.original),
+    [table],
+  );
+
+  // Report selection changes with the selected rows' data
+  const previousRowSelectionRef = React.useRef(rowSelection);
+  React.useEffect(() => {
+    if (previousRowSelectionRef.current === rowSelection) return;
+    previousRowSelectionRef.current = rowSelection;
+    propsRef.current.onSelectionChange?.(getSelectedRows());
+  }, [rowSelection, getSelectedRows]);
 
   const { rows } = table.getRowModel();
 
+  // Range positions refer to rendered rows, so a new row model clears the range
+  const { setRange } = cellRange;
+  React.useEffect(() => {
+    setRange(null);
+  }, [rows, setRange]);
+
+  // Statistics of the selected range, shown in the footer
+  const { range } = cellRange;
+  const cellRangeStats = React.useMemo(
+    () => (range ? getRangeStats(getRangeCells(rows, range)) : null),
+    [rows, range],
+  );
+
   return {
     table,
     rows,
     isClient,
-    grouping,
+    grouping: tableGrouping,
     setGrouping,
     globalFilter,
     setGlobalFilter,
@@ -232,5 +686,20 @@ export function useDataTableLogic<TData, TValue>({
     columnOrder,
     setColumnOrder,
     discoveredColumnFilters,
+    isServerSide,
+    isLoading: isServerSide && isLoading,
+    error,
+    refetch,
+    totalRowCount: isServerSide ? serverRowCount : data.length,
+    // Server-side data always arrives one page at a time
+    isPaginated: enablePagination || isServerSide,
+    getSelectedRows,
+    cellRangeStats,
+    copyStatus: cellRange.copyStatus,
+    pivot,
+    setPivot,
+    isPivotAvailable,
+    conditionalFormats,
+    setConditionalFormats,
   };
 }
@@ -0,0 +1,79 @@
+/**
+ * Hook that holds the pivot configuration and derives the pivot table from it:
+ * the generated pivot columns and the columns to hide, group and pin while the
+ * pivot is shown. Pivoting needs the rows in the browser, so it is unavailable
+ * with a server-side data source.
+ */
+
+import * as React from "react";
+import { ColumnDef, VisibilityState } from "@tanstack/react-table";
+import { DataTableState, PivotState } from "@/components/data-table/types";
+import { useControllableState } from "@/components/data-table/hooks/useControllableState";
+import { StateSliceChangeHandler } from "@/components/data-table/hooks/useDataTableState";
+import { AggregationFunction } from "@/components/data-table/utils/aggregationFunctions";
+import {
+  EMPTY_PIVOT_STATE,
+  createPivotColumns,
+  getColumnDefId,
+  getLeafColumnDefs,
+  isPivotStateActive,
+} from "@/components/data-table/utils/pivot";
+
+interface UseDataTablePivotProps<TData, TValue> {
+  columns: ColumnDef<TData, TValue>[];
+  data: TData[];
+  aggregationFns: Record<string, AggregationFunction>;
+  isAvailable: boolean;
+  state?: Partial<DataTableState>;
+  initialState?: Partial<DataTableState>;
+  onStateSliceChange?: StateSliceChangeHandler;
+}
+
+interface UseDataTablePivotReturn<TData> {
+  pivot: PivotState;
+  setPivot: React.Dispatch<React.SetStateAction<PivotState>>;
+  isPivotMode: boolean;
+  pivotColumns: ColumnDef<TData, unknown>[];
+  // Hides the source columns that are neither row groups nor pivot columns
+  pivotColumnVisibility: VisibilityState;
+}
+
+export function useDataTablePivot<TData, TValue>({
+  columns,
+  data,
+  aggregationFns,
+  isAvailable,
+  state,
+  initialState,
+  onStateSliceChange,
+}: UseDataTablePivotProps<TData, TValue>): UseDataTablePivotReturn<TData> {
+  const [pivot, setPivot] = useControllableState<PivotState>({
+    value: state?.pivot,
+    defaultValue: initialState?.pivot ?? EMPTY_PIVOT_STATE,
+    onChange: (value) => onStateSliceChange?.("pivot", value),
+  });
+
+  const isPivotMode = isAvailable && isPivotStateActive(pivot);
+
+  const pivotColumns = React.useMemo(
+    () =>
+      isPivotMode
+        ? createPivotColumns({ columns, data, pivot, aggregationFns })
+        : [],
+    [isPivotMode, columns, data, pivot, aggregationFns],
+  );
+
+  const pivotColumnVisibility = React.useMemo(() => {
+    if (!isPivotMode) return {};
+    const visibility: VisibilityState = {};
+    getLeafColumnDefs(columns).forEach((columnDef) => {
+      const columnId = getColumnDefId(columnDef);
+      if (columnId && !pivot.rows.includes(columnId)) {
+        visibility[columnId] = false;
+      }
+    });
+    return visibility;
+  }, [isPivotMode, columns, pivot.rows]);
+
+  return { pivot, setPivot, isPivotMode, pivotColumns, pivotColumnVisibility };
+}
@@ -9,13 +9,32 @@ import {
   SortingState,
   VisibilityState,
   ColumnOrderState,
-  Table as ReactTable,
-  GroupingState,
+  ColumnPinningState,
+  ColumnSizingState,
+  PaginationState,
+  RowSelectionState,
 } from "@tanstack/react-table";
+import {
+  ConditionalFormatRule,
+  DataTableState,
+} from "@/components/data-table/types";
+import { useControllableState } from "@/components/data-table/hooks/useControllableState";
+
+/**
+ * Callback used by the state hooks to report a change of a single state slice.
+ */
+export type StateSliceChangeHandler = <K extends keyof DataTableState>(
+  key: K,
+  value: DataTableState[K],
+) => void;
 
 interface UseDataTableStateProps {
   defaultPageSize?: number;
+  defaultConditionalFormats?: ConditionalFormatRule[];
   isMountedRef: React.RefObject<boolean>;
+  state?: Partial<DataTableState>;
+  initialState?: Partial<DataTableState>;
+  onStateSliceChange?: StateSliceChangeHandler;
 }
 
 interface UseDataTableStateReturn {
@@ -25,69 +44,117 @@ interface UseDataTableStateReturn {
   setColumnVisibility: React.Dispatch<React.SetStateAction<VisibilityState>>;
   columnOrder: ColumnOrderState;
   setColumnOrder: React.Dispatch<React.SetStateAction<ColumnOrderState>>;
-  pagination: {
-    pageIndex: number;
-    pageSize: number;
-  };
-  setPagination: React.Dispatch<
-    React.SetStateAction<{ pageIndex: number; pageSize: number }>
+  columnSizing: ColumnSizingState;
+  setColumnSizing: React.Dispatch<React.SetStateAction<ColumnSizingState>>;
+  columnPinning: ColumnPinningState;
+  setColumnPinning: React.Dispatch<React.SetStateAction<ColumnPinningState>>;
+  pagination: PaginationState;
+  setPagination: React.Dispatch<React.SetStateAction<PaginationState>>;
+  rowSelection: RowSelectionState;
+  setRowSelection: React.Dispatch<React.SetStateAction<RowSelectionState>>;
+  conditionalFormats: ConditionalFormatRule[];
+  setConditionalFormats: React.Dispatch<
+    React.SetStateAction<ConditionalFormatRule[]>
+  >;
+  columnAggregations: Record<string, string>;
+  setColumnAggregations: React.Dispatch<
+    React.SetStateAction<Record<string, string>>
+  >;
+  aggregationWeights: Record<string, string>;
+  setAggregationWeights: React.Dispatch<
+    React.SetStateAction<Record<string, string>>
   >;
   forceRenderCount: number;
   setForceRenderCount: React.Dispatch<React.SetStateAction<number>>;
-  createTableMeta: <TData>(
-    tableRef: React.MutableRefObject<ReactTable<TData> | null>,
-    grouping: GroupingState,
-  ) => {
+  createTableMeta: () => {
     forceRender: () => void;
-    recomputeAggregations: () => void;
   };
 }
 
 export function useDataTableState({
   defaultPageSize = 50,
+  defaultConditionalFormats = [],
   isMountedRef,
+  state,
+  initialState,
+  onStateSliceChange,
 }: UseDataTableStateProps): UseDataTableStateReturn {
-  // Table state
-  const [sorting, setSorting] = React.useState<SortingState>([]);
+  // Table state, each slice optionally controlled by the host
+  const [sorting, setSorting] = useControllableState<SortingState>({
+    value: state?.sorting,
+    defaultValue: initialState?.sorting ?? [],
+    onChange: (value) => onStateSliceChange?.("sorting", value),
+  });
   const [columnVisibility, setColumnVisibility] =
-    React.useState<VisibilityState>({});
-  const [columnOrder, setColumnOrder] = React.useState<ColumnOrderState>([]);
-  const [pagination, setPagination] = React.useState({
-    pageIndex: 0,
-    pageSize: defaultPageSize,
+    useControllableState<VisibilityState>({
+      value: state?.columnVisibility,
+      defaultValue: initialState?.columnVisibility ?? {},
+      onChange: (value) => onStateSliceChange?.("columnVisibility", value),
+    });
+  const [columnOrder, setColumnOrder] = useControllableState<ColumnOrderState>({
+    value: state?.columnOrder,
+    defaultValue: initialState?.columnOrder ?? [],
+    onChange: (value) => onStateSliceChange?.("columnOrder", value),
+  });
+  const [columnSizing, setColumnSizing] =
+    useControllableState<ColumnSizingState>({
+      value: state?.columnSizing,
+      defaultValue: initialState?.columnSizing ?? {},
+      onChange: (value) => onStateSliceChange?.("columnSizing", value),
+    });
+  const [columnPinning, setColumnPinning] =
+    useControllableState<ColumnPinningState>({
+      value: state?.columnPinning,
+      defaultValue: initialState?.columnPinning ?? {},
+      onChange: (value) => onStateSliceChange?.("columnPinning", value),
+    });
+  const [pagination, setPagination] = useControllableState<PaginationState>({
+    value: state?.pagination,
+    defaultValue: initialState?.pagination ?? {
+      pageIndex: 0,
+      pageSize: defaultPageSize,
+    },
+    onChange: (value) => onStateSliceChange?.("pagination", value),
+  });
+  const [rowSelection, setRowSelection] =
+    useControllableState<RowSelectionState>({
+      value: state?.rowSelection,
+      defaultValue: initialState?.rowSelection ?? {},
+      onChange: (value) => onStateSliceChange?.("rowSelection", value),
+    });
+  const [conditionalFormats, setConditionalFormats] = useControllableState<
+    ConditionalFormatRule[]
+  >({
+    value: state?.conditionalFormats,
+    defaultValue: initialState?.conditionalFormats ?? defaultConditionalFormats,
+    onChange: (value) => onStateSliceChange?.("conditionalFormats", value),
+  });
+  const [columnAggregations, setColumnAggregations] = useControllableState<
+    Record<string, string>
+  >({
+    value: state?.columnAggregations,
+    defaultValue: initialState?.columnAggregations ?? {},
+    onChange: (value) => onStateSliceChange?.("columnAggregations", value),
+  });
+  const [aggregationWeights, setAggregationWeights] = useControllableState<
+    Record<string, string>
+  >({
+    value: state?.aggregationWeights,
+    defaultValue: initialState?.aggregationWeights ?? {},
+    onChange: (value) => onStateSliceChange?.("aggregationWeights", value),
   });
   const [forceRenderCount, setForceRenderCount] = React.useState(0);
 
   // Create table meta object factory
-  const createTableMeta = React.useCallback(
-    <TData>(
-      tableRef: React.MutableRefObject<ReactTable<TData> | null>,
-      grouping: GroupingState,
-    ) => {
-      return {
-        forceRender: () => {
-          if (isMountedRef.current) {
-            setForceRenderCount((count) => count + 1);
-          }
-        },
-        recomputeAggregations: () => {
-          if (isMountedRef.current && tableRef.current && grouping.length > 0) {
-            // First, temporarily clear grouping
-            const tempGrouping = [...grouping];
-            tableRef.current.setGrouping([]);
-
-            // Then restore it to force recalculation
-            setTimeout(() => {
-              if (tableRef.current) {
-                tableRef.current.setGrouping(tempGrouping);
-              }
-            }, 0);
-          }
-        },
-      };
-    },
-    [isMountedRef],
-  );
+  const createTableMeta = React.useCallback(() => {
+    return {
+      forceRender: () => {
+        if (isMountedRef.current) {
+          setForceRenderCount((count) => count + 1);
+        }
+      },
+    };
+  }, [isMountedRef]);
 
   return {
     sorting,
@@ -96,8 +163,20 @@ export function useDataTableState({
     setColumnVisibility,
     columnOrder,
     setColumnOrder,
+    columnSizing,
+    setColumnSizing,
+    columnPinning,
+    setColumnPinning,
     pagination,
     setPagination,
+    rowSelection,
+    setRowSelection,
+    conditionalFormats,
+    setConditionalFormats,
+    columnAggregations,
+    setColumnAggregations,
+    aggregationWeights,
+    setAggregationWeights,
     forceRenderCount,
     setForceRenderCount,
     createTableMeta,
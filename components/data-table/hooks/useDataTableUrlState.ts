@@ -0,0 +1,138 @@
+/**
+ * Hook that keeps the table state in sync with the URL query string. On mount the
+ * state encoded in the URL is applied to the table; afterwards every change is
+ * written back with history.replaceState so that the current view can be shared as
+ * a link. Uses the History API rather than the Next router, so tables also render
+ * outside an App Router context.
+ */
+
+import * as React from "react";
+import {
+  ColumnFiltersState,
+  ColumnOrderState,
+  GroupingState,
+  PaginationState,
+  Table as ReactTable,
+  SortingState,
+  VisibilityState,
+} from "@tanstack/react-table";
+import { UrlStateOptions } from "@/components/data-table/types";
+import {
+  decodeUrlTableState,
+  encodeUrlTableState,
+  getUrlStateKeys,
+} from "@/components/data-table/utils/urlState";
+
+// Delay before writing to the URL, so typing in filters doesn't flood the history API
+const URL_WRITE_DELAY = 300;
+
+interface UseDataTableUrlStateProps<TData> {
+  table: ReactTable<TData>;
+  urlState?: boolean | UrlStateOptions;
+  defaultPageSize: number;
+  sorting: SortingState;
+  grouping: GroupingState;
+  globalFilter: string;
+  columnFilters: ColumnFiltersState;
+  columnVisibility: VisibilityState;
+  columnOrder: ColumnOrderState;
+  pagination: PaginationState;
+}
+
+export function useDataTableUrlState<TData>({
+  table,
+  urlState,
+  defaultPageSize,
+  sorting,
+  grouping,
+  globalFilter,
+  columnFilters,
+  columnVisibility,
+  columnOrder,
+  pagination,
+}: UseDataTableUrlStateProps<TData>): void {
+  const isEnabled = Boolean(urlState);
+  const prefix = typeof urlState === "object" ? (urlState.prefix ?? "") : "";
+  const hasHydratedRef = React.useRef(false);
+
+  // Rehydrate the table from the URL once on mount
+  React.useEffect(() => {
+    if (!isEnabled || hasHydratedRef.current) return;
+    hasHydratedRef.current = true;
+
+    const decodedState = decodeUrlTableState(
+      new URLSearchParams(window.location.search),
+      prefix,
+      defaultPageSize,
+    );
+    if (decodedState.sorting) table.setSorting(decodedState.sorting);
+    if (decodedState.grouping) table.setGrouping(decodedState.grouping);
+    if (decodedState.globalFilter !== undefined) {
+      table.setGlobalFilter(decodedState.globalFilter);
+    }
+    if (decodedState.columnFilters) {
+      table.setColumnFilters(decodedState.columnFilters);
+    }
+    if (decodedState.columnVisibility) {
+      table.setColumnVisibility(decodedState.columnVisibility);
+    }
+    if (decodedState.columnOrder) {
+      table.setColumnOrder(decodedState.columnOrder);
+    }
+    if (decodedState.pagination) {
+      table.setPagination(decodedState.pagination);
+    }
+  }, [isEnabled, prefix, defaultPageSize, table]);
+
+  // Write state changes back to the URL
+  React.useEffect(() => {
+    if (!isEnabled || !hasHydratedRef.current) return;
+
+    const timeoutId = setTimeout(() => {
+      const currentQuery = window.location.search.replace(/^\?/, "");
+      const params = new URLSearchParams(currentQuery);
+
+      // Replace only the parameters owned by this table
+      getUrlStateKeys(prefix).forEach((key) => params.delete(key));
+      const encodedState = encodeUrlTableState(
+        {
+          sorting,
+          grouping,
+          globalFilter,
+          columnFilters,
+          columnVisibility,
+          columnOrder,
+          pagination,
+        },
+        prefix,
+        defaultPageSize,
+      );
+      Object.entries(encodedState).forEach(([key, value]) =>
+        params.set(key, value),
+      );
+
+      const nextQuery = params.toString();
+      if (nextQuery === currentQuery) return;
+      // Next.js syncs its router with replaceState calls
+      const { pathname, hash } = window.location;
+      window.history.replaceState(
+        window.history.state,
+        "",
+        `${pathname}${nextQuery ? `?${nextQuery}` : ""}${hash}`,
+      );
+    }, URL_WRITE_DELAY);
+
+    return () => clearTimeout(timeoutId);
+  }, [
+    isEnabled,
+    prefix,
+    defaultPageSize,
+    sorting,
+    grouping,
+    globalFilter,
+    columnFilters,
+    columnVisibility,
+    columnOrder,
+    pagination,
+  ]);
+}
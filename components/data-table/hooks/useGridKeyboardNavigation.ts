@@ -0,0 +1,236 @@
+/**
+ * Hook that implements spreadsheet-style keyboard navigation for the table body,
+ * following the ARIA grid pattern: a single focused cell carries tabIndex 0 and the
+ * arrow, Home/End and PageUp/PageDown keys move it, scrolling the virtualizer so the
+ * focused row is rendered and visible. Shift with these keys extends the cell range
+ * selection and Ctrl/Cmd+C copies the selected range.
+ */
+
+import * as React from "react";
+import { Row, Table as ReactTable } from "@tanstack/react-table";
+import { Virtualizer } from "@tanstack/react-virtual";
+import { GridCellPosition } from "@/components/data-table/types";
+import { ROW_HEIGHT } from "@/components/data-table/hooks/useTableVirtualization";
+import { isCellEditable } from "@/components/data-table/utils/cellEditing";
+import {
+  copyCellsToClipboard,
+  getRangeCells,
+} from "@/components/data-table/utils/cellRange";
+
+interface UseGridKeyboardNavigationProps<TData> {
+  table: ReactTable<TData>;
+  rows: Row<TData>[];
+  virtualizer: Virtualizer<HTMLDivElement, HTMLTableRowElement>;
+  tableContainerRef: React.RefObject<HTMLDivElement>;
+}
+
+interface UseGridKeyboardNavigationReturn {
+  // Cell that takes part in the tab sequence, clamped to the current rows
+  activeCell: GridCellPosition;
+  onCellFocus: (position: GridCellPosition) => void;
+  onKeyDown: (event: React.KeyboardEvent<HTMLElement>) => void;
+}
+
+// Frames to wait for the virtualizer to render a row scrolled into view
+const MAX_FOCUS_ATTEMPTS = 5;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+export function useGridKeyboardNavigation<TData>({
+  table,
+  rows,
+  virtualizer,
+  tableContainerRef,
+}: UseGridKeyboardNavigationProps<TData>): UseGridKeyboardNavigationReturn {
+  const [focusedCell, setFocusedCell] = React.useState<GridCellPosition>({
+    rowIndex: 0,
+    columnIndex: 0,
+  });
+
+  const columnCount = table.getVisibleLeafColumns().length;
+  const activeCell = React.useMemo(
+    () => ({
+      rowIndex: clamp(focusedCell.rowIndex, 0, Math.max(rows.length - 1, 0)),
+      columnIndex: clamp(
+        focusedCell.columnIndex,
+        0,
+        Math.max(columnCount - 1, 0),
+      ),
+    }),
+    [focusedCell, rows.length, columnCount],
+  );
+
+  // Move DOM focus to a cell, waiting for the virtualizer to render its row
+  const focusCellElement = React.useCallback(
+    (position: GridCellPosition, attempt = 0) => {
+      const cellElement = tableContainerRef.current?.querySelector<HTMLElement>(
+        `tr[data-index="${position.rowIndex}"] > [aria-colindex="${
+          position.columnIndex + 1
+        }"]`,
+      );
+      if (cellElement) {
+        cellElement.focus();
+      } else if (attempt < MAX_FOCUS_ATTEMPTS) {
+        requestAnimationFrame(() => focusCellElement(position, attempt + 1));
+      }
+    },
+    [tableContainerRef],
+  );
+
+  const cellRange = table.options.meta?.cellRange;
+
+  // Move the focused cell, selecting the range from the anchor when given
+  const moveFocus = React.useCallback(
+    (position: GridCellPosition, anchor?: GridCellPosition) => {
+      if (rows.length === 0 || columnCount === 0) return;
+      const next = {
+        rowIndex: clamp(position.rowIndex, 0, rows.length - 1),
+        columnIndex: clamp(position.columnIndex, 0, columnCount - 1),
+      };
+      cellRange?.setRange({ anchor: anchor ?? next, focus: next });
+      setFocusedCell(next);
+      virtualizer.scrollToIndex(next.rowIndex, { align: "auto" });
+      requestAnimationFrame(() => focusCellElement(next));
+    },
+    [rows.length, columnCount, cellRange, virtualizer, focusCellElement],
+  );
+
+  // Number of rows that fit in the scroll container, for PageUp/PageDown. Rows
+  // with an open detail panel are taller, so the fixed row height is used.
+  const getPageRowCount = React.useCallback(() => {
+    const containerHeight = tableContainerRef.current?.clientHeight ?? 0;
+    return Math.max(1, Math.floor(containerHeight / ROW_HEIGHT) - 1);
+  }, [tableContainerRef]);
+
+  // Bring the focus back to the grid when an inline editor closes
+  const editingCell = table.options.meta?.editing?.editingCell ?? null;
+  const wasEditingRef = React.useRef(false);
+  React.useEffect(() => {
+    const wasEditing = wasEditingRef.current;
+    wasEditingRef.current = editingCell !== null;
+    if (!wasEditing || editingCell) return;
+
+    const container = tableContainerRef.current;
+    const { activeElement } = document;
+    if (
+      container &&
+      (!activeElement ||
+        activeElement === document.body ||
+        container.contains(activeElement))
+    ) {
+      focusCellElement(activeCell);
+    }
+  }, [editingCell, activeCell, tableContainerRef, focusCellElement]);
+
+  const onKeyDown = React.useCallback(
+    (event: React.KeyboardEvent<HTMLElement>) => {
+      // Only handle keys pressed on a cell, not inside its controls
+      const target = event.target as HTMLElement;
+      if (target.getAttribute("role") !== "gridcell") return;
+
+      const isCtrl = event.ctrlKey || event.metaKey;
+
+      // Copy the selected range, or the focused cell
+      if (isCtrl && event.key.toLowerCase() === "c") {
+        event.preventDefault();
+        const range = cellRange?.range ?? {
+          anchor: activeCell,
+          focus: activeCell,
+        };
+        // The footer tells whether the copy worked, e.g. when clipboard
+        // access was denied
+        copyCellsToClipboard(getRangeCells(rows, range))
+          .then(() => cellRange?.reportCopyStatus("copied"))
+          .catch(() => cellRange?.reportCopyStatus("failed"));
+        return;
+      }
+
+      // Shift extends the range from its moving end, like in a spreadsheet
+      const range = event.shiftKey ? cellRange?.range : null;
+      const anchor = event.shiftKey ? (range?.anchor ?? activeCell) : undefined;
+      const { rowIndex, columnIndex } = range?.focus ?? activeCell;
+      let next: GridCellPosition | null = null;
+
+      switch (event.key) {
+        case "ArrowUp":
+          next = { rowIndex: rowIndex - 1, columnIndex };
+          break;
+        case "ArrowDown":
+          next = { rowIndex: rowIndex + 1, columnIndex };
+          break;
+        case "ArrowLeft":
+          next = { rowIndex, columnIndex: columnIndex - 1 };
+          break;
+        case "ArrowRight":
+          next = { rowIndex, columnIndex: columnIndex + 1 };
+          break;
+        case "Home":
+          next = { rowIndex: isCtrl ? 0 : rowIndex, columnIndex: 0 };
+          break;
+        case "End":
+          next = {
+            rowIndex: isCtrl ? rows.length - 1 : rowIndex,
+            columnIndex: columnCount - 1,
+          };
+          break;
+        case "PageUp":
+          next = { rowIndex: rowIndex - getPageRowCount(), columnIndex };
+          break;
+        case "PageDown":
+          next = { rowIndex: rowIndex + getPageRowCount(), columnIndex };
+          break;
+        case " ":
+        case "Enter":
+        case "F2": {
+          const row = rows[rowIndex];
+          if (!row) return;
+          const cell = row.getVisibleCells()[columnIndex];
+          const editing = table.options.meta?.editing;
+          const canEdit = Boolean(
+            cell && editing && isCellEditable(row, cell.column),
+          );
+          if (
+            row.getCanExpand() &&
+            (event.key === " " || (event.key === "Enter" && !canEdit))
+          ) {
+            // Space and Enter expand and collapse group rows and detail
+            // panels; Enter edits instead on an editable cell
+            event.preventDefault();
+            row.toggleExpanded();
+          } else if (event.key !== " " && canEdit) {
+            // Enter and F2 start editing an editable cell
+            event.preventDefault();
+            editing?.startEditing(row.id, cell.column.id);
+          }
+          return;
+        }
+        default:
+          return;
+      }
+
+      event.preventDefault();
+      moveFocus(next, anchor);
+    },
+    [
+      activeCell,
+      rows,
+      columnCount,
+      table,
+      cellRange,
+      getPageRowCount,
+      moveFocus,
+    ],
+  );
+
+  const onCellFocus = React.useCallback((position: GridCellPosition) => {
+    setFocusedCell((old) =>
+      old.rowIndex === position.rowIndex &&
+      old.columnIndex === position.columnIndex
+        ? old
+        : position,
+    );
+  }, []);
+
+  return { activeCell, onCellFocus, onKeyDown };
+}
@@ -0,0 +1,176 @@
+/**
+ * Hook that manages the named views of a table. Loads views from the configured
+ * storage, migrates them against the current columns, and provides actions to
+ * save, rename, overwrite, delete and switch views.
+ */
+
+import * as React from "react";
+import { Table as ReactTable } from "@tanstack/react-table";
+import {
+  SavedView,
+  SavedViewStorage,
+  createLocalStorageViewStorage,
+  createSavedView,
+  isSavedView,
+  migrateSavedView,
+} from "@/components/data-table/utils/savedViews";
+import {
+  applyTableStateSnapshot,
+  getTableStateSnapshot,
+} from "@/components/data-table/utils/tableState";
+
+interface UseSavedViewsProps<TData> {
+  table: ReactTable<TData>;
+  tableId: string;
+  storage?: SavedViewStorage;
+}
+
+interface UseSavedViewsReturn {
+  views: SavedView[];
+  activeViewId: string | null;
+  /** Message of the last failed load or save, if any */
+  error: string | null;
+  saveView: (name: string) => void;
+  updateView: (viewId: string) => void;
+  renameView: (viewId: string, name: string) => void;
+  deleteView: (viewId: string) => void;
+  applyView: (viewId: string) => void;
+}
+
+const defaultStorage = createLocalStorageViewStorage();
+
+export function useSavedViews<TData>({
+  table,
+  tableId,
+  storage = defaultStorage,
+}: UseSavedViewsProps<TData>): UseSavedViewsReturn {
+  const [views, setViews] = React.useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  // Views saved by a newer schema version, kept in storage but not listed
+  const newerViewsRef = React.useRef<SavedView[]>([]);
+
+  const getColumnIds = React.useCallback(
+    () => table.getAllLeafColumns().map((column) => column.id),
+    [table],
+  );
+
+  // Load and migrate the stored views whenever the table or storage changes
+  React.useEffect(() => {
+    let isCancelled = false;
+
+    // Run the storage inside the promise so synchronous throws are caught too
+    new Promise<SavedView[]>((resolve) => resolve(storage.loadViews(tableId)))
+      .then((storedViews) => {
+        if (isCancelled) return;
+        const columnIds = getColumnIds();
+        const loadedViews: SavedView[] = [];
+        newerViewsRef.current = [];
+        // Malformed entries are dropped
+        (Array.isArray(storedViews) ? storedViews : [])
+          .filter(isSavedView)
+          .forEach((view) => {
+            const migratedView = migrateSavedView(view, columnIds);
+            if (migratedView) loadedViews.push(migratedView);
+            else newerViewsRef.current.push(view);
+          });
+        setViews(loadedViews);
+        setError(null);
+      })
+      .catch(() => {
+        if (isCancelled) return;
+        setViews([]);
+        setError("Couldn't load saved views");
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [storage, tableId, getColumnIds]);
+
+  // Update local state and persist in one step, restoring the previous views if
+  // the storage fails
+  const commitViews = React.useCallback(
+    (nextViews: SavedView[]) => {
+      const previousViews = views;
+      setViews(nextViews);
+      setError(null);
+      new Promise<void>((resolve) =>
+        resolve(
+          storage.saveViews(tableId, [...nextViews, ...newerViewsRef.current]),
+        ),
+      ).catch(() => {
+        setViews(previousViews);
+        setError("Couldn't save views");
+      });
+    },
+    [storage, tableId, views],
+  );
+
+  const saveView = React.useCallback(
+    (name: string) => {
+      const view = createSavedView(name, getTableStateSnapshot(table));
+      commitViews([...views, view]);
+      setActiveViewId(view.id);
+    },
+    [commitViews, table, views],
+  );
+
+  const updateView = React.useCallback(
+    (viewId: string) => {
+      const state = getTableStateSnapshot(table);
+      commitViews(
+        views.map((view) =>
+          view.id === viewId
+            ? { ...view, state, updatedAt: new Date().toISOString() }
+            : view,
+        ),
+      );
+    },
+    [commitViews, table, views],
+  );
+
+  const renameView = React.useCallback(
+    (viewId: string, name: string) => {
+      commitViews(
+        views.map((view) =>
+          view.id === viewId
+            ? { ...view, name, updatedAt: new Date().toISOString() }
+            : view,
+        ),
+      );
+    },
+    [commitViews, views],
+  );
+
+  const deleteView = React.useCallback(
+    (viewId: string) => {
+      commitViews(views.filter((view) => view.id !== viewId));
+      setActiveViewId((currentId) => (currentId === viewId ? null : currentId));
+    },
+    [commitViews, views],
+  );
+
+  const applyView = React.useCallback(
+    (viewId: string) => {
+      const view = views.find((v) => v.id === viewId);
+      // Migrate again in case the columns changed since the views were loaded
+      const migratedView = view && migrateSavedView(view, getColumnIds());
+      if (!migratedView) return;
+      applyTableStateSnapshot(table, migratedView.state);
+      setActiveViewId(viewId);
+    },
+    [views, table, getColumnIds],
+  );
+
+  return {
+    views,
+    activeViewId,
+    error,
+    saveView,
+    updateView,
+    renameView,
+    deleteView,
+    applyView,
+  };
+}
@@ -1,5 +1,6 @@
 /**
- * Hook that implements sticky header functionality for grouped rows in the table.
+ * Hook that implements sticky header functionality for grouped rows in the table,
+ * and for the parent rows of tree data.
  * Handles scroll synchronization and positioning of group headers to ensure they
  * remain visible while scrolling through grouped data.
  */
@@ -11,6 +12,8 @@ import { Virtualizer } from "@tanstack/react-virtual";
 interface UseStickyGroupHeadersOptions<TData> {
   rows: Row<TData>[];
   grouping: GroupingState;
+  // Parent rows of tree data stick like group rows
+  isTreeData?: boolean;
   tableContainerRef: React.RefObject<HTMLDivElement>;
   isMountedRef: React.RefObject<boolean>;
   virtualizer: Virtualizer<HTMLDivElement, HTMLTableRowElement>;
@@ -19,6 +22,7 @@ interface UseStickyGroupHeadersOptions<TData> {
 export function useStickyGroupHeaders<TData>({
   rows,
   grouping,
+  isTreeData = false,
   tableContainerRef,
   isMountedRef,
   virtualizer,
@@ -29,7 +33,7 @@ export function useStickyGroupHeaders<TData>({
 
   // Compute sticky group headers when scrolling
   React.useEffect(() => {
-    if (!rows.length || grouping.length === 0) {
+    if (!rows.length || (grouping.length === 0 && !isTreeData)) {
       setStickyGroupHeaders([]);
       return;
     }
@@ -117,7 +121,14 @@ export function useStickyGroupHeaders<TData>({
         container.removeEventListener("scroll", handleScroll);
       };
     }
-  }, [rows, grouping, tableContainerRef, isMountedRef, virtualizer]);
+  }, [
+    rows,
+    grouping,
+    isTreeData,
+    tableContainerRef,
+    isMountedRef,
+    virtualizer,
+  ]);
 
   return { stickyGroupHeaders, setStickyGroupHeaders };
 }
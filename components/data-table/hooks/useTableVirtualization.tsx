@@ -8,6 +8,9 @@ import * as React from "react";
 import { Row } from "@tanstack/react-table";
 import { useVirtualizer } from "@tanstack/react-virtual";
 
+// Height of a row; rows with an open detail panel are measured as they render
+export const ROW_HEIGHT = 26;
+
 interface UseTableVirtualizationOptions<TData> {
   rows: Row<TData>[];
   tableContainerRef: React.RefObject<HTMLDivElement>;
@@ -26,12 +29,19 @@ export function useTableVirtualization<TData>({
     [tableContainerRef],
   );
 
+  // Measured sizes follow their row when rows are sorted or filtered
+  const getItemKey = React.useCallback(
+    (index: number) => rows[index]?.id ?? index,
+    [rows],
+  );
+
   const virtualizer = useVirtualizer<HTMLDivElement, HTMLTableRowElement>({
     count: rows.length,
     getScrollElement,
-    estimateSize: () => 26,
+    estimateSize: () => ROW_HEIGHT,
+    getItemKey,
     overscan: 20,
-    measureElement: (el) => el?.getBoundingClientRect().height || 26,
+    measureElement: (el) => el?.getBoundingClientRect().height || ROW_HEIGHT,
     onChange: (instance) => {
       requestAnimationFrame(() => {
         if (!isMountedRef.current) return;
@@ -12,17 +12,60 @@ import "@/components/data-table/ui/tooltips.css";
 // Export types
 export type {
   DataTableProps,
+  DataTableState,
+  DataTableStateChangeHandlers,
+  DataTableHandle,
+  CellEditorType,
+  CellEditorConfig,
+  CellEditEvent,
+  CellRange,
+  CellRangeStats,
+  GridCellPosition,
+  PivotState,
+  PivotValue,
+  ColumnDataType,
   ColumnFilter,
   FilterOption,
   SelectColumnFilter,
   RangeColumnFilter,
   RangeSliderColumnFilter,
   StarRatingColumnFilter,
+  DataSource,
+  DataSourceQuery,
+  DataSourceResult,
+  SavedViewsOptions,
+  UrlStateOptions,
 } from "@/components/data-table/types";
 
 // Export main component and essential utilities
 export { DataTable } from "@/components/data-table/core/DataTable";
 export { createColumn } from "@/components/data-table/utils/columnUtils";
+export { createInMemoryDataSource } from "@/components/data-table/utils/dataSource";
+export type { InMemoryDataSourceOptions } from "@/components/data-table/utils/dataSource";
+export { createLocalStorageViewStorage } from "@/components/data-table/utils/savedViews";
+export type {
+  SavedView,
+  SavedViewStorage,
+} from "@/components/data-table/utils/savedViews";
+export type { TableStateSnapshot } from "@/components/data-table/utils/tableState";
+export {
+  exportTable,
+  getExportContent,
+  DEFAULT_EXPORT_OPTIONS,
+} from "@/components/data-table/utils/exportUtils";
+export type {
+  ExportFormat,
+  ExportOptions,
+  ExportScope,
+  ExportColumnSelection,
+} from "@/components/data-table/utils/exportUtils";
+export {
+  registerAggregation,
+  unregisterAggregation,
+  getAggregations,
+} from "@/components/data-table/utils/aggregationRegistry";
+export type { AggregationDefinition } from "@/components/data-table/utils/aggregationRegistry";
+export type { AggregationFunction } from "@/components/data-table/utils/aggregationFunctions";
 
 // Export cell renderers
 export {
@@ -5,7 +5,33 @@
  * documentation for the component's configuration options.
  */
 
-import { ColumnDef, FilterFn } from "@tanstack/react-table";
+import * as React from "react";
+import {
+  ColumnDef,
+  ColumnFiltersState,
+  ColumnOrderState,
+  ColumnPinningState,
+  ColumnSizingState,
+  ExpandedState,
+  FilterFn,
+  GroupingState,
+  PaginationState,
+  Row,
+  RowData,
+  RowSelectionState,
+  SortingState,
+  VisibilityState,
+} from "@tanstack/react-table";
+import { ZodType } from "zod";
+import { SavedViewStorage } from "@/components/data-table/utils/savedViews";
+import {
+  ExportFormat,
+  ExportOptions,
+} from "@/components/data-table/utils/exportUtils";
+import {
+  DateOptions,
+  MoneyFormatterOptions,
+} from "@/components/data-table/ui/cell-renderers/types";
 
 // Extend @tanstack/react-table module with our custom functions
 declare module "@tanstack/react-table" {
@@ -16,10 +42,77 @@ declare module "@tanstack/react-table" {
 
   interface AggregationFns {
     first: true;
+    last: true;
     sparkline: true;
+    weightedMean: true;
+    variance: true;
+    stdDev: true;
+    p5: true;
+    p25: true;
+    p75: true;
+    p95: true;
+    long: true;
+    short: true;
+    net: true;
+    sumAbs: true;
+  }
+
+  interface TableMeta<TData extends RowData> {
+    forceRender?: () => void;
+    editing?: CellEditingApi;
+    cellRange?: CellRangeApi;
+    /** Whether the table is showing the pivot described by PivotState */
+    isPivotMode?: boolean;
+    /** Whether rows are nested through getSubRows or getParentId */
+    isTreeData?: boolean;
+    /** Renders the panel under an expanded row, see DataTableProps */
+    renderDetailPanel?: (row: Row<TData>) => React.ReactNode;
+    /** Conditional format rules applied to the cells */
+    conditionalFormats?: ConditionalFormatRule[];
+    setConditionalFormats?: (
+      conditionalFormats: ConditionalFormatRule[],
+    ) => void;
+    /** Aggregations and weight columns chosen per column, see DataTableState */
+    columnAggregations?: Record<string, string>;
+    setColumnAggregations?: React.Dispatch<
+      React.SetStateAction<Record<string, string>>
+    >;
+    aggregationWeights?: Record<string, string>;
+    setAggregationWeights?: React.Dispatch<
+      React.SetStateAction<Record<string, string>>
+    >;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface ColumnMeta<TData extends RowData, TValue> {
+    /** Choices for select filters and the category editor */
+    options?: FilterOption[];
+    maxStars?: number;
+    filterConfig?: ColumnFilter;
+    /** Makes the cells of the column editable, see CellEditorConfig */
+    editable?: boolean | CellEditorConfig<TData>;
+    /** Type of the column values; limits the aggregations offered for it */
+    dataType?: ColumnDataType;
+    /** Column weighing the values of weighted aggregations such as weightedMean */
+    weightColumn?: string;
+    /** Number format of the values in exports, given as money renderer options */
+    numberFormat?: MoneyFormatterOptions;
+    /** Date format of the values in exports, given as date renderer options */
+    dateFormat?: DateOptions;
+    /** Label of the column in exports, e.g. when its header is a function */
+    exportHeader?: string;
+    /** Value of the column in exports and copies, e.g. to serialize objects */
+    exportValue?: (row: Row<TData>) => unknown;
+    /** Excel number format code of the column, e.g. `0.00%`, overriding numberFormat and dateFormat */
+    exportFormat?: string;
   }
 }
 
+/**
+ * Type of the values of a column, declared through `meta.dataType`
+ */
+export type ColumnDataType = "number" | "string" | "date" | "boolean";
+
 export interface FilterOption {
   label: string;
   value: string;
@@ -62,9 +155,308 @@ export type ColumnFilter =
   | RangeSliderColumnFilter
   | StarRatingColumnFilter;
 
-export interface DataTableProps<TData, TValue> {
+export type CellEditorType =
+  | "text"
+  | "number"
+  | "money"
+  | "date"
+  | "category"
+  | "starRating";
+
+/**
+ * Editing options of a column, set through `meta.editable`. Editable columns need
+ * an accessorKey, or a setValue function to write the edited value into a row.
+ */
+export interface CellEditorConfig<TData> {
+  /** Editor rendered in the cell. Defaults to "text". */
+  type?: CellEditorType;
+  /** Validates the edited value; the parsed output is what gets committed */
+  schema?: ZodType;
+  /** Choices of the category editor. Defaults to meta.options. */
+  options?: FilterOption[];
+  /** Number of stars of the star rating editor. Defaults to meta.maxStars or 5. */
+  maxStars?: number;
+  /** Restricts editing to some rows */
+  isEditable?: (row: TData) => boolean;
+  /** Returns a copy of the row holding the new value, for accessorFn columns */
+  setValue?: (row: TData, value: unknown) => TData;
+}
+
+export interface CellEditEvent<TData> {
+  rowId: string;
+  columnId: string;
+  oldValue: unknown;
+  newValue: unknown;
+  /** Original data of the edited row, before the edit */
+  row: TData;
+}
+
+/**
+ * Editing state and actions shared with the rendered cells through the table meta.
+ */
+export interface CellEditingApi {
+  editingCell: { rowId: string; columnId: string } | null;
+  startEditing: (rowId: string, columnId: string) => void;
+  cancelEditing: () => void;
+  /**
+   * Validate and commit a value for the cell being edited, then optionally start
+   * editing the next (1) or previous (-1) editable cell of the row. Returns the
+   * validation error message, or null when the value was accepted.
+   */
+  commitEdit: (value: unknown, moveBy?: 1 | -1) => string | null;
+  /** Cells whose edit is waiting for the onCellEdit promise */
+  isCellPending: (rowId: string, columnId: string) => boolean;
+  /** Error of the last rejected edit of a cell */
+  getCellError: (rowId: string, columnId: string) => string | undefined;
+}
+
+/** Position of a body cell in the rendered rows and visible columns */
+export interface GridCellPosition {
+  rowIndex: number;
+  columnIndex: number;
+}
+
+/** Rectangular block of cells between the anchor cell and the focus cell */
+export interface CellRange {
+  anchor: GridCellPosition;
+  focus: GridCellPosition;
+}
+
+/** Outcome of copying cells to the clipboard */
+export type CopyStatus = "copied" | "failed";
+
+/**
+ * Cell range selection state and actions shared with the rendered cells through
+ * the table meta.
+ */
+export interface CellRangeApi {
+  range: CellRange | null;
+  setRange: (range: CellRange | null) => void;
+  /** Outcome of the last copy, shown in the footer for a few seconds */
+  copyStatus: CopyStatus | null;
+  reportCopyStatus: (status: CopyStatus) => void;
+  /** Start a mouse selection at a cell, or extend the current one with shift */
+  startSelection: (position: GridCellPosition, extend: boolean) => void;
+  /** Move the focus cell of a mouse selection in progress */
+  extendSelection: (position: GridCellPosition) => void;
+  isCellInRange: (position: GridCellPosition) => boolean;
+}
+
+/** Summary of the numeric cells of a cell range */
+export interface CellRangeStats {
+  cellCount: number;
+  numericCount: number;
+  sum: number;
+  average: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Value shown in the cells of a pivot table: a column aggregated with a named
+ * aggregation function of the table's registry.
+ */
+export interface PivotValue {
+  columnId: string;
+  aggregationFn: string;
+}
+
+/**
+ * Pivot table configuration. Rows are grouped by the row columns, and every
+ * distinct value of the pivot columns becomes a column group holding the value
+ * columns, followed by subtotal and total columns.
+ */
+export interface PivotState {
+  enabled: boolean;
+  rows: string[];
+  columns: string[];
+  values: PivotValue[];
+}
+
+/**
+ * Colors a conditional format applies to a cell
+ */
+export interface ConditionalFormatStyle {
+  backgroundColor?: string;
+  color?: string;
+}
+
+interface ConditionalFormatRuleBase {
+  /** Identifies the rule in the editor */
+  id: string;
+  columnId: string;
+}
+
+/** Colors cells whose value compares to a fixed value, or lies within a range */
+export interface ThresholdFormatRule extends ConditionalFormatRuleBase {
+  type: "threshold";
+  operator: ">" | ">=" | "<" | "<=" | "=" | "between";
+  value: number;
+  /** Upper bound of the "between" operator */
+  value2?: number;
+  style: ConditionalFormatStyle;
+}
+
+/** Blends the background from the first color at the minimum to the last color at the maximum */
+export interface ColorScaleFormatRule extends ConditionalFormatRuleBase {
+  type: "colorScale";
+  colors: [string, string] | [string, string, string];
+}
+
+/** Draws a bar behind the value, as long as the value relative to the maximum */
+export interface DataBarFormatRule extends ConditionalFormatRuleBase {
+  type: "dataBar";
+  color: string;
+}
+
+/** Shows an icon for the low, middle and high third of the value range */
+export interface IconSetFormatRule extends ConditionalFormatRuleBase {
+  type: "iconSet";
+  iconSet: "arrows" | "trafficLights";
+}
+
+/** Colors the cells holding the highest or lowest values */
+export interface TopBottomFormatRule extends ConditionalFormatRuleBase {
+  type: "topBottom";
+  direction: "top" | "bottom";
+  count: number;
+  style: ConditionalFormatStyle;
+}
+
+/**
+ * Rule formatting the numeric cells of a column. Ranges and rankings are taken
+ * over the filtered rows; the aggregated cells of group rows are compared with
+ * the other groups of the same level.
+ */
+export type ConditionalFormatRule =
+  | ThresholdFormatRule
+  | ColorScaleFormatRule
+  | DataBarFormatRule
+  | IconSetFormatRule
+  | TopBottomFormatRule;
+
+/**
+ * Query forwarded to a DataSource whenever the part of the table state that
+ * determines the visible rows changes.
+ */
+export interface DataSourceQuery {
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
+  globalFilter: string;
+  grouping: GroupingState;
+  pagination: PaginationState;
+}
+
+export interface DataSourceResult<TData> {
+  rows: TData[];
+  /** Total number of rows matching the query across all pages */
+  rowCount: number;
+}
+
+/**
+ * Adapter used for server-side data mode. When a DataSource is provided the table
+ * stops sorting, filtering, grouping and paginating in the browser and instead
+ * asks the adapter for the rows of the current page.
+ */
+export interface DataSource<TData> {
+  fetchRows: (
+    query: DataSourceQuery,
+    options: { signal: AbortSignal },
+  ) => Promise<DataSourceResult<TData>>;
+}
+
+/**
+ * Every piece of table state that the host page can read or drive.
+ */
+export interface DataTableState {
+  sorting: SortingState;
+  columnFilters: ColumnFiltersState;
+  globalFilter: string;
+  grouping: GroupingState;
+  expanded: ExpandedState;
+  columnVisibility: VisibilityState;
+  columnOrder: ColumnOrderState;
+  columnSizing: ColumnSizingState;
+  columnPinning: ColumnPinningState;
+  pagination: PaginationState;
+  rowSelection: RowSelectionState;
+  pivot: PivotState;
+  conditionalFormats: ConditionalFormatRule[];
+  /** Aggregation function name chosen per column, in place of its aggregationFn */
+  columnAggregations: Record<string, string>;
+  /** Weight column chosen per column for weighted aggregations */
+  aggregationWeights: Record<string, string>;
+}
+
+/**
+ * Per-slice change callbacks, called with the next value of the slice.
+ */
+export interface DataTableStateChangeHandlers {
+  onSortingChange?: (sorting: SortingState) => void;
+  onColumnFiltersChange?: (columnFilters: ColumnFiltersState) => void;
+  onGlobalFilterChange?: (globalFilter: string) => void;
+  onGroupingChange?: (grouping: GroupingState) => void;
+  onExpandedChange?: (expanded: ExpandedState) => void;
+  onColumnVisibilityChange?: (columnVisibility: VisibilityState) => void;
+  onColumnOrderChange?: (columnOrder: ColumnOrderState) => void;
+  onColumnSizingChange?: (columnSizing: ColumnSizingState) => void;
+  onColumnPinningChange?: (columnPinning: ColumnPinningState) => void;
+  onPaginationChange?: (pagination: PaginationState) => void;
+  onRowSelectionChange?: (rowSelection: RowSelectionState) => void;
+  onPivotChange?: (pivot: PivotState) => void;
+  onConditionalFormatsChange?: (
+    conditionalFormats: ConditionalFormatRule[],
+  ) => void;
+  onColumnAggregationsChange?: (
+    columnAggregations: Record<string, string>,
+  ) => void;
+  onAggregationWeightsChange?: (
+    aggregationWeights: Record<string, string>,
+  ) => void;
+}
+
+/**
+ * Imperative API exposed through the ref of the DataTable.
+ */
+export interface DataTableHandle<TData> {
+  /** Original data of all selected rows, including rows hidden by filters */
+  getSelectedRows: () => TData[];
+  /** Exports the table in a format and downloads the file */
+  exportData: (format: ExportFormat, options?: Partial<ExportOptions>) => void;
+  /** Exported content of the table: text, or the workbook bytes for Excel */
+  getExportContent: (
+    format: ExportFormat,
+    options?: Partial<ExportOptions>,
+  ) => string | Uint8Array;
+}
+
+export interface SavedViewsOptions {
+  /** Identifies the table in storage, unique per table across the app */
+  tableId: string;
+  /** Storage backend for the views. Defaults to localStorage. */
+  storage?: SavedViewStorage;
+}
+
+export interface UrlStateOptions {
+  /**
+   * Prefix for the query parameter names, needed when several tables on the
+   * same page sync their state to the URL (e.g. "payments" gives "payments.sort").
+   */
+  prefix?: string;
+}
+
+export interface DataTableProps<TData, TValue>
+  extends DataTableStateChangeHandlers {
   columns: ColumnDef<TData, TValue>[];
-  data: TData[];
+  /**
+   * Rows rendered by the table. Ignored when a dataSource is provided.
+   */
+  data?: TData[];
+  /**
+   * Optional server-side adapter. When set, sorting, filtering, grouping and
+   * pagination are delegated to the adapter instead of being computed in the browser.
+   */
+  dataSource?: DataSource<TData>;
   /**
    * Optional array of filter configurations.
    * If not provided, columns with filterFn defined will be automatically discovered as filterable.
@@ -82,7 +474,90 @@ export interface DataTableProps<TData, TValue> {
   enableColumnVisibility?: boolean;
   enableColumnFilters?: boolean;
   enablePagination?: boolean;
+  /**
+   * Adds a checkbox column for selecting rows. Shift-click selects a range and
+   * checking a group header selects every row in the group.
+   */
   enableRowSelection?: boolean;
+  /**
+   * Pins a row under the table body with the total of every column over the
+   * filtered rows, computed with the column's aggregation function. Not shown
+   * with a `dataSource`, whose rows are only one page of the filtered rows.
+   */
+  enableTotalsRow?: boolean;
+  /**
+   * Called with the original data of the selected rows whenever the selection changes.
+   */
+  onSelectionChange?: (selectedRows: TData[]) => void;
+  /**
+   * Derives a stable id for each row. Selection is keyed by row id, so provide
+   * this when the data array may be replaced or reordered. Ids of nested rows
+   * should come from their own data, as inline edits derive them without the
+   * parent row.
+   */
+  getRowId?: (originalRow: TData, index: number, parent?: Row<TData>) => string;
+  /**
+   * Tree data: returns the child rows of a row, for data that is already nested.
+   * Parent rows show the roll-up of their children in columns with an
+   * aggregationFn, and filtering keeps the parents of matching rows.
+   */
+  getSubRows?: (originalRow: TData, index: number) => TData[] | undefined;
+  /**
+   * Tree data from a flat list: returns the id of the parent row, as derived by
+   * getRowId, or null for top-level rows. Without getRowId, rows are identified
+   * by their index in data. Works like getSubRows otherwise.
+   */
+  getParentId?: (originalRow: TData) => string | null | undefined;
+  /**
+   * Renders a detail panel under a row when it is expanded. Adds a column of
+   * expand toggles with an expand-all button in its header. Group rows and tree
+   * parents expand into their children and have no panel.
+   */
+  renderDetailPanel?: (row: Row<TData>) => React.ReactNode;
+  /**
+   * Conditional format rules applied initially, see ConditionalFormatRule. Users
+   * edit them in the Format tab of the customization dialog; control them
+   * through `state.conditionalFormats`.
+   */
+  conditionalFormats?: ConditionalFormatRule[];
+  /**
+   * Called when an edited cell value passes validation. Returning a promise keeps
+   * the new value displayed while pending and rolls it back if the promise rejects.
+   */
+  onCellEdit?: (edit: CellEditEvent<TData>) => void | Promise<void>;
+  /**
+   * Enables the toolbar "Import" button and receives the rows imported from a CSV
+   * or TSV file or pasted text. Only rows whose values all pass validation are
+   * passed; appending them to the data is up to the host.
+   */
+  onImport?: (rows: TData[]) => void;
+  /**
+   * Receives the imperative table API, see DataTableHandle.
+   */
+  ref?: React.Ref<DataTableHandle<TData>>;
   defaultExpanded?: boolean | number | Record<string, boolean>;
   defaultGrouping?: string[];
+  /**
+   * Controlled state slices. A slice provided here is owned by the host page and
+   * only changes when the host passes a new value; omitted slices stay internal.
+   */
+  state?: Partial<DataTableState>;
+  /**
+   * Initial values for uncontrolled state slices. Takes precedence over
+   * defaultGrouping, defaultExpanded and defaultPageSize.
+   */
+  initialState?: Partial<DataTableState>;
+  /**
+   * Called with the complete next table state whenever any slice changes.
+   */
+  onStateChange?: (state: DataTableState) => void;
+  /**
+   * Enables the "Views" menu for saving and switching named table layouts.
+   */
+  savedViews?: SavedViewsOptions;
+  /**
+   * Opt-in sync of sorting, filters, grouping, column layout and pagination with
+   * the URL query string, so the current view can be shared as a link.
+   */
+  urlState?: boolean | UrlStateOptions;
 }
@@ -13,6 +13,19 @@ const DEFAULT_FORMAT_OPTIONS = {
   month: "2-digit",
   day: "2-digit",
 };
+
+/**
+ * Format a date as text, as displayed by the date renderer
+ */
+export function formatDate(value: Date, options: DateOptions = {}): string {
+  const { locale = DEFAULT_LOCALE, formatOptions = DEFAULT_FORMAT_OPTIONS } =
+    options;
+  return value.toLocaleDateString(
+    locale,
+    formatOptions as Intl.DateTimeFormatOptions,
+  );
+}
+
 const DateComponent = ({
   value,
   options,
@@ -22,20 +35,7 @@ const DateComponent = ({
 }) => {
   if (!value) return null;
 
-  const {
-    locale = DEFAULT_LOCALE,
-    formatOptions = DEFAULT_FORMAT_OPTIONS,
-    className,
-  } = options;
-
-  return (
-    <div className={className}>
-      {value.toLocaleDateString(
-        locale,
-        formatOptions as Intl.DateTimeFormatOptions,
-      )}
-    </div>
-  );
+  return <div className={options.className}>{formatDate(value, options)}</div>;
 };
 DateComponent.displayName = "DateComponent";
 
@@ -28,20 +28,17 @@ const formatAbbreviatedNumber = (
   return value / dividers[divider];
 };
 
-const MoneyComponent = ({
-  value,
-  options,
-}: {
-  value: number | null;
-  options: MoneyFormatterOptions;
-}) => {
-  if (value == null) return null;
-
+/**
+ * Format a monetary value as text, as displayed by the money renderer
+ */
+export function formatMoney(
+  value: number,
+  options: MoneyFormatterOptions = {},
+): string {
   const {
     currency = DEFAULT_CURRENCY,
     locale = DEFAULT_LOCALE,
     digits = DEFAULT_DIGITS,
-    className = DEFAULT_CLASS_NAME,
     abbreviate = DEFAULT_ABBREVIATE,
     abbreviationDivider = DEFAULT_ABBREVIATION_DIVIDER,
     showCurrencySymbol = DEFAULT_SHOW_CURRENCY_SYMBOL,
@@ -57,10 +54,23 @@ const MoneyComponent = ({
     maximumFractionDigits: digits,
   }).format(displayValue);
 
+  return abbreviate
+    ? `${formattedValue}${abbreviationDivider}`
+    : formattedValue;
+}
+
+const MoneyComponent = ({
+  value,
+  options,
+}: {
+  value: number | null;
+  options: MoneyFormatterOptions;
+}) => {
+  if (value == null) return null;
+
   return (
-    <div className={className}>
-      {formattedValue}
-      {abbreviate ? abbreviationDivider : ""}
+    <div className={options.className ?? DEFAULT_CLASS_NAME}>
+      {formatMoney(value, options)}
     </div>
   );
 };
@@ -1,6 +1,15 @@
 import * as React from "react";
 import { Column } from "@tanstack/react-table";
-import { ArrowDown, ArrowUp, EyeOff, X } from "lucide-react";
+import {
+  ArrowDown,
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  ArrowUp,
+  EyeOff,
+  ListPlus,
+  PinOff,
+  X,
+} from "lucide-react";
 import {
   DropdownMenuItem,
   DropdownMenuSeparator,
@@ -22,69 +31,55 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { ColumnFilter } from "@/components/data-table/types";
+import {
+  AggregationDefinition,
+  getAggregation,
+  getAggregations,
+  isAggregationCompatible,
+} from "@/components/data-table/utils/aggregationRegistry";
 
-export const AGGREGATION_FUNCTIONS = [
-  { value: "sum", type: "sum", label: "Sum" },
-
-  { value: "count", type: "numeric", label: "Count" },
-  { value: "uniqueCount", type: "numeric", label: "Unique Count" },
-
-  { value: "min", type: "standard", label: "Min" },
-  { value: "max", type: "standard", label: "Max" },
-  { value: "mean", type: "standard", label: "Average" },
-  { value: "median", type: "standard", label: "Median" },
-
-  { value: "first", type: "order", label: "First Value" },
-  { value: "last", type: "order", label: "Last Value" },
-  { value: "extent", type: "order", label: "Range" },
-
-  //{ value: "unique", type: " Numeric", label: "Unique Values" },
-  { value: "sparkline", type: "chart", label: "Histogram" },
-];
-
-// Group aggregation functions by type for display
-const GROUPED_AGGREGATION_FUNCTIONS = {
-  numeric: AGGREGATION_FUNCTIONS.filter((fn) => fn.type === "numeric"),
-  standard: AGGREGATION_FUNCTIONS.filter((fn) => fn.type === "standard"),
-  order: AGGREGATION_FUNCTIONS.filter((fn) => fn.type === "order"),
-  chart: AGGREGATION_FUNCTIONS.filter((fn) => fn.type === "chart"),
-  sum: AGGREGATION_FUNCTIONS.filter((fn) => fn.type === "sum"),
-};
-
-// Function to convert type names to display labels
-const getGroupLabel = (type: string): string => {
-  switch (type) {
-    case "numeric":
-      return "Counting";
-    case "standard":
-      return "Statistical";
-    case "order":
-      return "Ordering";
-    case "chart":
-      return "Visualization";
-    case "sum":
-      return "Sums";
-    default:
-      return type.charAt(0).toUpperCase() + type.slice(1);
-  }
+// Group aggregations by category for display, in registration order
+const groupByCategory = (aggregations: AggregationDefinition[]) => {
+  const groups = new Map<string, AggregationDefinition[]>();
+  aggregations.forEach((aggregation) => {
+    groups.set(aggregation.category, [
+      ...(groups.get(aggregation.category) ?? []),
+      aggregation,
+    ]);
+  });
+  return Array.from(groups.entries());
 };
 
 interface ColumnActionsProps<TData, TValue> {
   column: Column<TData, TValue>;
   filterConfig?: ColumnFilter;
-  onAggregationChange?: (columnId: string, aggregationFn: string) => void;
+  onAggregationChange?: (
+    columnId: string,
+    aggregationFn: string,
+    weightColumn?: string,
+  ) => void;
+  // Number of columns the table is currently sorted by
+  sortedColumnCount?: number;
+  // Columns that can weigh the values of weighted aggregations
+  weightColumns?: { id: string; label: string }[];
 }
 
 export function ColumnActions<TData, TValue>({
   column,
   filterConfig,
   onAggregationChange,
+  sortedColumnCount = 0,
+  weightColumns = [],
 }: ColumnActionsProps<TData, TValue>) {
   const isSortable = column.getCanSort();
+  const sortDirection = column.getIsSorted();
+  // Another column is sorted, so this one can be added as a further sort level
+  const canAddToSort =
+    !sortDirection && sortedColumnCount > 0 && column.getCanMultiSort();
   const isFilterable = column.getCanFilter();
-  const isAggregatable = Boolean(
-    column.columnDef.aggregationFn || onAggregationChange,
-  );
+  const isPinnable = column.getCanPin();
+  const pinnedSide = column.getIsPinned();
+  const dataType = column.columnDef.meta?.dataType;
 
   // Aggregation state management (moved from AggregationMenu)
   const getCurrentAggregationFn = React.useCallback(() => {
@@ -106,6 +101,44 @@ export function ColumnActions<TData, TValue>({
     }
   }, [getCurrentAggregationFn]);
 
+  // Aggregations that apply to the data type of the column, and weighted ones
+  // only when there is a column to weigh by, keeping the current one listed even
+  // when it doesn't apply
+  const hasWeightColumns = weightColumns.length > 0;
+  const aggregationGroups = React.useMemo(
+    () =>
+      groupByCategory(
+        getAggregations().filter(
+          (aggregation) =>
+            aggregation.name === selectedAggFn ||
+            (isAggregationCompatible(aggregation, dataType) &&
+              (!aggregation.weighted || hasWeightColumns)),
+        ),
+      ),
+    [dataType, selectedAggFn, hasWeightColumns],
+  );
+
+  const isAggregatable =
+    Boolean(onAggregationChange) && aggregationGroups.length > 0;
+
+  // Weight column of weighted aggregations, the first candidate by default
+  const [weightColumn, setWeightColumn] = React.useState(
+    () => column.columnDef.meta?.weightColumn,
+  );
+  const currentWeightColumn = column.columnDef.meta?.weightColumn;
+  React.useEffect(() => {
+    if (currentWeightColumn) setWeightColumn(currentWeightColumn);
+  }, [currentWeightColumn]);
+  const isWeighted = Boolean(getAggregation(selectedAggFn)?.weighted);
+
+  const applyAggregation = React.useCallback(
+    (aggregationFn: string, weight?: string) => {
+      // The choice is kept in the table state, which regroups the rows
+      onAggregationChange?.(column.id, aggregationFn, weight);
+    },
+    [column.id, onAggregationChange],
+  );
+
   const handleAggregationChange = React.useCallback(
     (value: string) => {
       if (value === selectedAggFn) return;
@@ -114,18 +147,22 @@ export function ColumnActions<TData, TValue>({
       setSelectedAggFn(value);
       prevAggFnRef.current = value;
 
-      // Call the parent callback to handle the aggregation change
-      if (onAggregationChange) {
-        onAggregationChange(column.id, value);
-      } else {
-        // If no callback is provided, still update the column definition directly
-        if (column.columnDef) {
-          // @ts-expect-error - Type system constraints
-          column.columnDef.aggregationFn = value;
-        }
-      }
+      // Only weighted aggregations keep a weight column
+      const weight = getAggregation(value)?.weighted
+        ? (weightColumn ?? weightColumns[0]?.id)
+        : undefined;
+      if (weight) setWeightColumn(weight);
+      applyAggregation(value, weight);
     },
-    [column, onAggregationChange, selectedAggFn],
+    [applyAggregation, selectedAggFn, weightColumn, weightColumns],
+  );
+
+  const handleWeightColumnChange = React.useCallback(
+    (value: string) => {
+      setWeightColumn(value);
+      applyAggregation(selectedAggFn, value);
+    },
+    [applyAggregation, selectedAggFn],
   );
 
   // Render the appropriate filter based on the filter type
@@ -160,23 +197,31 @@ export function ColumnActions<TData, TValue>({
         <DropdownMenuGroup className="mb-1">
           <DropdownMenuLabel className="text-xs font-medium text-muted-foreground py-1 px-2">
             Sort Order
+            {sortDirection && sortedColumnCount > 1 && (
+              <span className="ml-1 font-normal">
+                (priority {column.getSortIndex() + 1} of {sortedColumnCount})
+              </span>
+            )}
           </DropdownMenuLabel>
           <div className="flex gap-0.5 px-1">
+            {/* A column that is already sorted keeps its sort priority */}
             <DropdownMenuItem
-              onClick={() => column.toggleSorting(false)}
+              onClick={() =>
+                column.toggleSorting(false, Boolean(sortDirection))
+              }
               className="h-8 justify-start py-0.5 px-2 flex-1"
             >
               <ArrowUp className="mr-1.5 h-3.5 w-3.5 text-muted-foreground/70" />
               <span>Asc</span>
             </DropdownMenuItem>
             <DropdownMenuItem
-              onClick={() => column.toggleSorting(true)}
+              onClick={() => column.toggleSorting(true, Boolean(sortDirection))}
               className="h-8 justify-start py-0.5 px-2 flex-1"
             >
               <ArrowDown className="mr-1.5 h-3.5 w-3.5 text-muted-foreground/70" />
               <span>Desc</span>
             </DropdownMenuItem>
-            {column.getIsSorted() && (
+            {sortDirection && (
               <DropdownMenuItem
                 onClick={() => column.clearSorting()}
                 className="h-8 justify-center py-0.5 px-2 flex-1"
@@ -185,6 +230,24 @@ export function ColumnActions<TData, TValue>({
               </DropdownMenuItem>
             )}
           </div>
+          {canAddToSort && (
+            <div className="flex gap-0.5 px-1">
+              <DropdownMenuItem
+                onClick={() => column.toggleSorting(false, true)}
+                className="h-8 justify-start py-0.5 px-2 flex-1"
+              >
+                <ListPlus className="mr-1.5 h-3.5 w-3.5 text-muted-foreground/70" />
+                <span>Then Asc</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => column.toggleSorting(true, true)}
+                className="h-8 justify-start py-0.5 px-2 flex-1"
+              >
+                <ListPlus className="mr-1.5 h-3.5 w-3.5 text-muted-foreground/70" />
+                <span>Then Desc</span>
+              </DropdownMenuItem>
+            </div>
+          )}
         </DropdownMenuGroup>
       )}
 
@@ -229,28 +292,98 @@ export function ColumnActions<TData, TValue>({
                     <SelectValue placeholder="First Value" />
                   </SelectTrigger>
                   <SelectContent>
-                    {Object.entries(GROUPED_AGGREGATION_FUNCTIONS).map(
-                      ([type, functions]) => (
-                        <SelectGroup key={type}>
-                          <SelectLabel>{getGroupLabel(type)}</SelectLabel>
-                          {functions.map((aggFn) => (
-                            <SelectItem key={aggFn.value} value={aggFn.value}>
-                              {aggFn.label}
-                            </SelectItem>
-                          ))}
-                        </SelectGroup>
-                      ),
-                    )}
+                    {aggregationGroups.map(([category, aggregations]) => (
+                      <SelectGroup key={category}>
+                        <SelectLabel>{category}</SelectLabel>
+                        {aggregations.map((aggregation) => (
+                          <SelectItem
+                            key={aggregation.name}
+                            value={aggregation.name}
+                          >
+                            {aggregation.label}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             </DropdownMenuItem>
+            {isWeighted && (
+              <>
+                <DropdownMenuLabel className="text-xs font-medium text-muted-foreground py-1 px-2">
+                  Weighted By
+                </DropdownMenuLabel>
+                <DropdownMenuItem
+                  onSelect={(e) => e.preventDefault()}
+                  className="p-1 cursor-default focus:bg-transparent"
+                >
+                  <div className="w-full" onClick={preventClose}>
+                    <Select
+                      value={weightColumn}
+                      onValueChange={handleWeightColumnChange}
+                    >
+                      <SelectTrigger className="w-full h-8 min-h-8 text-sm">
+                        <SelectValue placeholder="Weight column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {weightColumns.map((weight) => (
+                          <SelectItem key={weight.id} value={weight.id}>
+                            {weight.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuGroup>
+        </>
+      )}
+
+      {isPinnable && (
+        <>
+          {(isSortable || isFilterable || isAggregatable) && (
+            <DropdownMenuSeparator className="my-1" />
+          )}
+          <DropdownMenuGroup className="mb-1">
+            <DropdownMenuLabel className="text-xs font-medium text-muted-foreground py-1 px-2">
+              Pin Column
+            </DropdownMenuLabel>
+            <div className="flex gap-0.5 px-1">
+              <DropdownMenuItem
+                onClick={() => column.pin("left")}
+                disabled={pinnedSide === "left"}
+                className="h-8 justify-start py-0.5 px-2 flex-1"
+              >
+                <ArrowLeftToLine className="mr-1.5 h-3.5 w-3.5 text-muted-foreground/70" />
+                <span>Left</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => column.pin("right")}
+                disabled={pinnedSide === "right"}
+                className="h-8 justify-start py-0.5 px-2 flex-1"
+              >
+                <ArrowRightToLine className="mr-1.5 h-3.5 w-3.5 text-muted-foreground/70" />
+                <span>Right</span>
+              </DropdownMenuItem>
+              {pinnedSide && (
+                <DropdownMenuItem
+                  onClick={() => column.pin(false)}
+                  className="h-8 justify-center py-0.5 px-2 flex-1"
+                >
+                  <PinOff className="h-3.5 w-3.5 text-muted-foreground/70" />
+                  <span className="sr-only">Unpin</span>
+                </DropdownMenuItem>
+              )}
+            </div>
           </DropdownMenuGroup>
         </>
       )}
 
       {/* Hide option */}
-      {(isSortable || isFilterable || isAggregatable) && (
+      {(isSortable || isFilterable || isAggregatable || isPinnable) && (
         <DropdownMenuSeparator className="my-1" />
       )}
       <DropdownMenuItem
@@ -5,7 +5,7 @@
  */
 
 import * as React from "react";
-import { Column } from "@tanstack/react-table";
+import { Column, Header } from "@tanstack/react-table";
 import { ArrowDown, ArrowUp, ArrowUpDown, Filter } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -17,12 +17,20 @@ import {
 
 import { ColumnFilter } from "@/components/data-table/types";
 import { ColumnActions } from "@/components/data-table/ui/column-header/ColumnActions";
+import { ColumnResizeHandle } from "@/components/data-table/ui/column-header/ColumnResizeHandle";
+import { isPivotColumnId } from "@/components/data-table/utils/pivot";
 
 interface DataTableColumnHeaderProps<TData, TValue> {
   column: Column<TData, TValue>;
   title: React.ReactNode;
   filterConfig?: ColumnFilter;
-  onAggregationChange?: (columnId: string, aggregationFn: string) => void;
+  onAggregationChange?: (
+    columnId: string,
+    aggregationFn: string,
+    weightColumn?: string,
+  ) => void;
+  // Header of the column, enables the resize handle when provided
+  header?: Header<TData, TValue>;
 }
 
 export function DataTableColumnHeader<TData, TValue>({
@@ -30,50 +38,102 @@ export function DataTableColumnHeader<TData, TValue>({
   title,
   filterConfig,
   onAggregationChange,
+  header,
 }: DataTableColumnHeaderProps<TData, TValue>) {
   const isSortable = column.getCanSort();
+  const sortDirection = column.getIsSorted();
+  // Priority badges are only shown while sorting by several columns
+  const sortedColumnCount =
+    header?.getContext().table.getState().sorting.length ?? 0;
+  const sortPriority =
+    sortDirection && sortedColumnCount > 1 ? column.getSortIndex() + 1 : null;
+  // Other numeric columns can weigh the values of weighted aggregations
+  const weightColumns = (header?.getContext().table.getAllLeafColumns() ?? [])
+    .filter(
+      (candidate) =>
+        candidate.id !== column.id &&
+        candidate.accessorFn &&
+        !isPivotColumnId(candidate.id) &&
+        (candidate.columnDef.meta?.dataType ?? "number") === "number",
+    )
+    .map((candidate) => ({
+      id: candidate.id,
+      label:
+        typeof candidate.columnDef.header === "string"
+          ? candidate.columnDef.header
+          : candidate.id,
+    }));
+  const resizeHandle =
+    header && column.getCanResize() ? (
+      <ColumnResizeHandle header={header} />
+    ) : null;
 
   if (!isSortable) {
     return (
-      <div className="h-full flex items-center px-2 p-0 m-0 cursor-default">
-        <div className="flex-1 truncate">{title}</div>
-      </div>
+      <>
+        <div className="h-full flex items-center px-2 p-0 m-0 cursor-default">
+          <div className="flex-1 truncate">{title}</div>
+        </div>
+        {resizeHandle}
+      </>
     );
   }
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button
-          variant="ghost"
-          className="w-full h-full p-0 m-0 font-normal rounded-none flex items-center justify-between data-[state=open]:bg-accent hover:bg-accent/50"
-        >
-          <div className="flex items-center w-full h-full px-2">
-            <div className="flex-1 truncate text-left">{title}</div>
-            <div className="ml-1.5 flex items-center justify-center gap-0.5">
-              {column.getIsSorted() === "desc" ? (
-                <ArrowDown className="h-3.5 w-3.5 text-primary" />
-              ) : column.getIsSorted() === "asc" ? (
-                <ArrowUp className="h-3.5 w-3.5 text-primary" />
-              ) : (
-                <ArrowUpDown className="h-3.5 w-3.5 text-muted-foreground/70" />
-              )}
-              {column.getIsFiltered() && (
-                <Filter className="h-3.5 w-3.5 ml-0.5 text-primary" />
-              )}
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            className="w-full h-full p-0 m-0 font-normal rounded-none flex items-center justify-between data-[state=open]:bg-accent hover:bg-accent/50"
+            // Shift-click adds the column to the sort instead of opening the menu
+            onPointerDown={(e) => {
+              if (e.shiftKey) e.preventDefault();
+            }}
+            onClick={(e) => {
+              if (!e.shiftKey) return;
+              e.preventDefault();
+              column.toggleSorting(undefined, true);
+            }}
+          >
+            <div className="flex items-center w-full h-full px-2">
+              <div className="flex-1 truncate text-left">{title}</div>
+              <div className="ml-1.5 flex items-center justify-center gap-0.5">
+                {sortDirection === "desc" ? (
+                  <ArrowDown className="h-3.5 w-3.5 text-primary" />
+                ) : sortDirection === "asc" ? (
+                  <ArrowUp className="h-3.5 w-3.5 text-primary" />
+                ) : (
+                  <ArrowUpDown className="h-3.5 w-3.5 text-muted-foreground/70" />
+                )}
+                {sortPriority !== null && (
+                  <span
+                    className="flex h-3.5 min-w-3.5 items-center justify-center rounded-full bg-primary px-0.5 text-[10px] font-medium leading-none text-primary-foreground"
+                    aria-label={`Sort priority ${sortPriority}`}
+                  >
+                    {sortPriority}
+                  </span>
+                )}
+                {column.getIsFiltered() && (
+                  <Filter className="h-3.5 w-3.5 ml-0.5 text-primary" />
+                )}
+              </div>
             </div>
-          </div>
-          <span className="sr-only">Sort by {column.id}</span>
-        </Button>
-      </DropdownMenuTrigger>
+            <span className="sr-only">Sort by {column.id}</span>
+          </Button>
+        </DropdownMenuTrigger>
 
-      <DropdownMenuContent align="start" className="p-0">
-        <ColumnActions
-          column={column}
-          filterConfig={filterConfig}
-          onAggregationChange={onAggregationChange}
-        />
-      </DropdownMenuContent>
-    </DropdownMenu>
+        <DropdownMenuContent align="start" className="p-0">
+          <ColumnActions
+            column={column}
+            filterConfig={filterConfig}
+            onAggregationChange={onAggregationChange}
+            sortedColumnCount={sortedColumnCount}
+            weightColumns={weightColumns}
+          />
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {resizeHandle}
+    </>
   );
 }
@@ -0,0 +1,56 @@
+/**
+ * Drag handle on the right edge of a column header. Dragging resizes the column
+ * and double-clicking fits the column to the content of the rendered rows.
+ */
+
+import * as React from "react";
+import { Header } from "@tanstack/react-table";
+import {
+  TABLE_ROOT_ATTRIBUTE,
+  measureColumnContentWidth,
+} from "@/components/data-table/utils/columnSizing";
+
+interface ColumnResizeHandleProps<TData, TValue> {
+  header: Header<TData, TValue>;
+}
+
+export function ColumnResizeHandle<TData, TValue>({
+  header,
+}: ColumnResizeHandleProps<TData, TValue>) {
+  const { column } = header;
+  const resizeHandler = header.getResizeHandler();
+
+  const handleDoubleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    event.stopPropagation();
+    const tableRoot = event.currentTarget.closest<HTMLElement>(
+      `[${TABLE_ROOT_ATTRIBUTE}]`,
+    );
+    if (!tableRoot) return;
+
+    const contentWidth = measureColumnContentWidth(tableRoot, column.id);
+    if (contentWidth === null) return;
+
+    const { minSize = 0, maxSize = Number.MAX_SAFE_INTEGER } = column.columnDef;
+    header.getContext().table.setColumnSizing((old) => ({
+      ...old,
+      [column.id]: Math.min(Math.max(contentWidth, minSize), maxSize),
+    }));
+  };
+
+  return (
+    <div
+      role="separator"
+      aria-orientation="vertical"
+      aria-label={`Resize ${column.id} column`}
+      onMouseDown={resizeHandler}
+      onTouchStart={resizeHandler}
+      onDoubleClick={handleDoubleClick}
+      // Keep the header dropdown from opening when grabbing the handle
+      onClick={(e) => e.stopPropagation()}
+      onPointerDown={(e) => e.stopPropagation()}
+      className={`absolute right-0 top-0 z-10 h-full w-1.5 cursor-col-resize select-none touch-none hover:bg-primary/40 ${
+        column.getIsResizing() ? "bg-primary" : ""
+      }`}
+    />
+  );
+}
@@ -5,7 +5,16 @@
  */
 
 import * as React from "react";
-import { Table as ReactTable, GroupingState } from "@tanstack/react-table";
+import {
+  Table as ReactTable,
+  GroupingState,
+  PaginationState,
+} from "@tanstack/react-table";
+import { DataTablePagination } from "@/components/data-table/ui/footer/Pagination";
+import { CellRangeStats, CopyStatus } from "@/components/data-table/types";
+
+const formatStat = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
 
 // Define props for DataTableFooter
 interface DataTableFooterProps<TData> {
@@ -13,6 +22,16 @@ interface DataTableFooterProps<TData> {
   dataLength: number;
   grouping: GroupingState;
   groupableColumnObjects: { id: string; label: string }[];
+  isPaginated: boolean;
+  // Passed explicitly so that the memoized footer rerenders on page changes
+  pagination: PaginationState;
+  pageCount: number;
+  // Number of top-level rows being paginated
+  pageRowCount: number;
+  // Summary of the selected cell range
+  cellRangeStats?: CellRangeStats | null;
+  // Outcome of the last copy to the clipboard
+  copyStatus?: CopyStatus | null;
 }
 
 // Memoize the footer component to prevent rerendering on aggregation changes
@@ -21,12 +40,32 @@ export const DataTableFooter = React.memo(function DataTableFooter<TData>({
   dataLength,
   grouping,
   groupableColumnObjects,
+  isPaginated,
+  pagination,
+  pageCount,
+  pageRowCount,
+  cellRangeStats,
+  copyStatus,
 }: DataTableFooterProps<TData>) {
+  // Pages count top-level rows, i.e. groups when the table is grouped
+  const pageUnit = grouping.length > 0 ? "groups" : "entries";
+  const pageStart = pagination.pageIndex * pagination.pageSize;
+  const pageEnd = Math.min(pageStart + pagination.pageSize, pageRowCount);
+
   return (
-    <div className="flex items-center">
+    <div className="flex items-center gap-4">
       <div className="flex-1 text-sm text-muted-foreground">
-        Showing {table.getFilteredRowModel().rows.length} of {dataLength}{" "}
-        entries
+        {isPaginated ? (
+          <>
+            Showing {pageRowCount > 0 ? pageStart + 1 : 0}–{pageEnd} of{" "}
+            {pageRowCount} {pageUnit}
+          </>
+        ) : (
+          <>
+            Showing {table.getFilteredRowModel().rows.length} of {dataLength}{" "}
+            entries
+          </>
+        )}
         {grouping.length > 0 && (
           <span className="ml-2">
             (Grouped by{" "}
@@ -47,6 +86,60 @@ export const DataTableFooter = React.memo(function DataTableFooter<TData>({
           </span>
         )}
       </div>
+      {copyStatus && (
+        <div
+          role="status"
+          className={
+            copyStatus === "failed"
+              ? "text-sm text-destructive"
+              : "text-sm text-muted-foreground"
+          }
+        >
+          {copyStatus === "failed"
+            ? "Couldn't copy to the clipboard"
+            : "Copied to the clipboard"}
+        </div>
+      )}
+      {/* Statistics of the selected cell range, like a spreadsheet status bar */}
+      {cellRangeStats && cellRangeStats.cellCount > 1 && (
+        <div
+          className="flex items-center gap-3 text-sm text-muted-foreground tabular-nums"
+          aria-live="polite"
+        >
+          <span>
+            Count:{" "}
+            <span className="font-medium text-foreground">
+              {cellRangeStats.numericCount > 0
+                ? cellRangeStats.numericCount
+                : cellRangeStats.cellCount}
+            </span>
+          </span>
+          {cellRangeStats.numericCount > 0 &&
+            (
+              [
+                ["Sum", cellRangeStats.sum],
+                ["Average", cellRangeStats.average],
+                ["Min", cellRangeStats.min],
+                ["Max", cellRangeStats.max],
+              ] as const
+            ).map(([label, value]) => (
+              <span key={label}>
+                {label}:{" "}
+                <span className="font-medium text-foreground">
+                  {formatStat(value)}
+                </span>
+              </span>
+            ))}
+        </div>
+      )}
+      {isPaginated && (
+        <DataTablePagination
+          table={table}
+          pageIndex={pagination.pageIndex}
+          pageSize={pagination.pageSize}
+          pageCount={pageCount}
+        />
+      )}
     </div>
   );
 });
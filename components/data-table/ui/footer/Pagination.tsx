@@ -0,0 +1,207 @@
+/**
+ * Pagination controls for the data table footer. Provides a page size selector,
+ * first/previous/next/last navigation with a window of page numbers, and a
+ * jump-to-page input.
+ */
+
+import * as React from "react";
+import { Table as ReactTable } from "@tanstack/react-table";
+import {
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+} from "lucide-react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+} from "@/components/ui/pagination";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100, 250];
+
+// Number of page links shown on each side of the current page
+const PAGE_WINDOW = 1;
+
+interface DataTablePaginationProps<TData> {
+  table: ReactTable<TData>;
+  pageIndex: number;
+  pageSize: number;
+  pageCount: number;
+}
+
+/**
+ * Page indices to render as links, with null marking a gap shown as an ellipsis
+ */
+function getPageItems(pageIndex: number, pageCount: number): (number | null)[] {
+  const items: (number | null)[] = [];
+  const start = Math.max(1, pageIndex - PAGE_WINDOW);
+  const end = Math.min(pageCount - 2, pageIndex + PAGE_WINDOW);
+
+  items.push(0);
+  if (start > 1) items.push(null);
+  for (let index = start; index <= end; index++) items.push(index);
+  if (end < pageCount - 2) items.push(null);
+  if (pageCount > 1) items.push(pageCount - 1);
+
+  return items;
+}
+
+export function DataTablePagination<TData>({
+  table,
+  pageIndex,
+  pageSize,
+  pageCount,
+}: DataTablePaginationProps<TData>) {
+  const [jumpValue, setJumpValue] = React.useState("");
+
+  const canPreviousPage = pageIndex > 0;
+  const canNextPage = pageIndex < pageCount - 1;
+
+  // Include a custom default page size in the options
+  const pageSizeOptions = React.useMemo(
+    () =>
+      PAGE_SIZE_OPTIONS.includes(pageSize)
+        ? PAGE_SIZE_OPTIONS
+        : [...PAGE_SIZE_OPTIONS, pageSize].sort((a, b) => a - b),
+    [pageSize],
+  );
+
+  const goToPage = (index: number) => {
+    if (index < 0 || index >= pageCount || index === pageIndex) return;
+    table.setPageIndex(index);
+  };
+
+  const handleJumpSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const page = Number(jumpValue);
+    if (Number.isInteger(page) && page >= 1 && page <= pageCount) {
+      table.setPageIndex(page - 1);
+    }
+    setJumpValue("");
+  };
+
+  return (
+    <div className="flex items-center gap-4 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="text-muted-foreground">Rows per page</span>
+        <Select
+          value={String(pageSize)}
+          onValueChange={(value) => table.setPageSize(Number(value))}
+        >
+          <SelectTrigger className="h-8 w-[80px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {pageSizeOptions.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Pagination className="mx-0 w-auto">
+        <PaginationContent>
+          <PaginationItem>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Go to first page"
+              disabled={!canPreviousPage}
+              onClick={() => goToPage(0)}
+            >
+              <ChevronsLeft className="h-4 w-4" />
+            </Button>
+          </PaginationItem>
+          <PaginationItem>
+            <Button
+              type="button"
+              variant="ghost"
+              aria-label="Go to previous page"
+              className="gap-1 px-2.5 sm:pl-2.5"
+              disabled={!canPreviousPage}
+              onClick={() => goToPage(pageIndex - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              <span className="hidden sm:block">Previous</span>
+            </Button>
+          </PaginationItem>
+
+          {getPageItems(pageIndex, pageCount).map((index, position) =>
+            index === null ? (
+              <PaginationItem key={`ellipsis-${position}`}>
+                <PaginationEllipsis />
+              </PaginationItem>
+            ) : (
+              <PaginationItem key={index}>
+                <Button
+                  type="button"
+                  variant={index === pageIndex ? "outline" : "ghost"}
+                  size="icon"
+                  aria-label={`Go to page ${index + 1}`}
+                  aria-current={index === pageIndex ? "page" : undefined}
+                  onClick={() => goToPage(index)}
+                >
+                  {index + 1}
+                </Button>
+              </PaginationItem>
+            ),
+          )}
+
+          <PaginationItem>
+            <Button
+              type="button"
+              variant="ghost"
+              aria-label="Go to next page"
+              className="gap-1 px-2.5 sm:pr-2.5"
+              disabled={!canNextPage}
+              onClick={() => goToPage(pageIndex + 1)}
+            >
+              <span className="hidden sm:block">Next</span>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </PaginationItem>
+          <PaginationItem>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label="Go to last page"
+              disabled={!canNextPage}
+              onClick={() => goToPage(pageCount - 1)}
+            >
+              <ChevronsRight className="h-4 w-4" />
+            </Button>
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+
+      <form onSubmit={handleJumpSubmit} className="flex items-center gap-2">
+        <span className="text-muted-foreground">Go to</span>
+        <Input
+          type="number"
+          min={1}
+          max={pageCount}
+          placeholder={String(pageIndex + 1)}
+          value={jumpValue}
+          onChange={(e) => setJumpValue(e.target.value)}
+          aria-label="Page number"
+          className="h-8 w-16"
+        />
+      </form>
+    </div>
+  );
+}
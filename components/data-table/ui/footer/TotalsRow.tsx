@@ -0,0 +1,102 @@
+/**
+ * Totals row pinned under the scrollable table body. Shows the aggregation of
+ * every column over the filtered rows, rendered with the column's aggregatedCell
+ * renderer, and follows the horizontal scroll position of the body.
+ */
+
+import * as React from "react";
+import {
+  Table as ReactTable,
+  createCell,
+  flexRender,
+} from "@tanstack/react-table";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import { createTotalsRow } from "@/components/data-table/utils/totals";
+import { getColumnCellStyles } from "@/components/data-table/utils/columnStyles";
+import { getAggregatedCellTemplate } from "@/components/data-table/utils/aggregationRegistry";
+
+interface DataTableTotalsRowProps<TData> {
+  table: ReactTable<TData>;
+  scrollRef: React.RefObject<HTMLDivElement | null>;
+  ariaRowIndex: number;
+}
+
+export function DataTableTotalsRow<TData>({
+  table,
+  scrollRef,
+  ariaRowIndex,
+}: DataTableTotalsRowProps<TData>) {
+  const filteredRowModel = table.getFilteredRowModel();
+  const visibleColumns = table.getVisibleLeafColumns();
+  // Aggregations and weight columns chosen in the column menus are applied to the
+  // column definitions, so the columns change with them
+  const leafColumns = table.getAllLeafColumns();
+
+  // Recompute the totals when the filtered rows or the aggregations change
+  const totalsRow = React.useMemo(
+    () => createTotalsRow(table, filteredRowModel, leafColumns),
+    [table, filteredRowModel, leafColumns],
+  );
+
+  // Label the row in the first column when that column has no total
+  const labelColumnId =
+    visibleColumns[0] && totalsRow.getValue(visibleColumns[0].id) === undefined
+      ? visibleColumns[0].id
+      : null;
+
+  return (
+    <div
+      ref={scrollRef}
+      className="overflow-hidden border-t"
+      style={{ scrollbarGutter: "stable" }}
+    >
+      <Table
+        role="presentation"
+        style={{
+          width: "100%",
+          minWidth: `${table.getTotalSize()}px`,
+          tableLayout: "fixed",
+          borderCollapse: "separate",
+          borderSpacing: 0,
+        }}
+      >
+        <TableBody role="rowgroup">
+          <TableRow
+            role="row"
+            aria-rowindex={ariaRowIndex}
+            data-totals-row=""
+            className="flex w-full bg-muted font-medium hover:bg-muted"
+          >
+            {visibleColumns.map((column, columnIndex) => {
+              const value = totalsRow.getValue(column.id);
+              const cell = createCell(table, totalsRow, column, column.id);
+
+              return (
+                <TableCell
+                  key={column.id}
+                  role="gridcell"
+                  aria-colindex={columnIndex + 1}
+                  data-column-id={column.id}
+                  className="overflow-hidden text-ellipsis whitespace-nowrap"
+                  style={getColumnCellStyles(column)}
+                >
+                  {column.id === labelColumnId ? (
+                    "Total"
+                  ) : value === undefined ? null : (
+                    <span className="block overflow-hidden text-ellipsis">
+                      {flexRender(
+                        getAggregatedCellTemplate(column) ??
+                          column.columnDef.cell,
+                        cell.getContext(),
+                      )}
+                    </span>
+                  )}
+                </TableCell>
+              );
+            })}
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
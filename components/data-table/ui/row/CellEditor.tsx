@@ -0,0 +1,313 @@
+/**
+ * Inline editor rendered in place of a cell's content while it is being edited.
+ * Enter commits, Escape cancels and Tab / Shift+Tab commit and move to the next
+ * or previous editable cell of the row. Validation errors are shown below the
+ * editor, which stays open until the value is accepted or editing is cancelled.
+ */
+
+import * as React from "react";
+import { Cell } from "@tanstack/react-table";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DatePicker } from "@/components/date-picker/date-picker";
+import { StarRating } from "@/components/ui/star-rating";
+import {
+  CellEditingApi,
+  CellEditorConfig,
+} from "@/components/data-table/types";
+
+interface CellEditorProps<TData, TValue> {
+  cell: Cell<TData, TValue>;
+  config: CellEditorConfig<TData>;
+  editing: CellEditingApi;
+}
+
+// Props shared by the individual editors
+interface EditorProps {
+  value: unknown;
+  // Returns false when the value was rejected
+  onCommit: (value: unknown, moveBy?: 1 | -1) => boolean;
+  onCancel: () => void;
+  onError: (error: string) => void;
+}
+
+// Parse the text of the number and money editors; empty text clears the value
+const parseNumber = (text: string): number | null | undefined => {
+  const trimmed = text.replace(/[,\s$€£]/g, "");
+  if (trimmed === "") return null;
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+// Key handling shared by the editors
+const handleEditorKeyDown = (
+  event: React.KeyboardEvent,
+  commit: (moveBy?: 1 | -1) => void,
+  cancel: () => void,
+) => {
+  if (event.key === "Enter") {
+    event.preventDefault();
+    commit();
+  } else if (event.key === "Escape") {
+    event.preventDefault();
+    cancel();
+  } else if (event.key === "Tab") {
+    event.preventDefault();
+    commit(event.shiftKey ? -1 : 1);
+  }
+};
+
+function TextEditor({
+  value,
+  numeric,
+  onCommit,
+  onCancel,
+  onError,
+}: EditorProps & { numeric: boolean }) {
+  const [text, setText] = React.useState(value == null ? "" : String(value));
+  // Set once the editor is done, so that the blur caused by unmounting is ignored
+  const doneRef = React.useRef(false);
+
+  const commit = (moveBy?: 1 | -1) => {
+    if (doneRef.current) return;
+    let newValue: unknown = text;
+    if (numeric) {
+      newValue = parseNumber(text);
+      if (newValue === undefined) {
+        onError("Enter a valid number");
+        return;
+      }
+    }
+    doneRef.current = onCommit(newValue, moveBy);
+  };
+
+  const cancel = () => {
+    doneRef.current = true;
+    onCancel();
+  };
+
+  return (
+    <Input
+      autoFocus
+      value={text}
+      inputMode={numeric ? "decimal" : undefined}
+      onChange={(e) => setText(e.target.value)}
+      onFocus={(e) => e.target.select()}
+      onKeyDown={(e) => handleEditorKeyDown(e, commit, cancel)}
+      onBlur={() => commit()}
+      className={`h-6 px-1 py-0 md:text-sm ${numeric ? "text-right" : ""}`}
+    />
+  );
+}
+
+function DateEditor({ value, onCommit, onCancel }: EditorProps) {
+  const defaultDate =
+    value instanceof Date
+      ? value
+      : typeof value === "string" || typeof value === "number"
+        ? new Date(value)
+        : undefined;
+
+  return (
+    <div
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onCancel();
+      }}
+    >
+      <DatePicker
+        defaultDate={
+          defaultDate && !isNaN(defaultDate.getTime()) ? defaultDate : undefined
+        }
+        onDateChange={(date) => onCommit(date ?? null)}
+        className="[&>button]:h-6 [&>button]:w-full [&>button]:px-1"
+      />
+    </div>
+  );
+}
+
+function CategoryEditor({
+  value,
+  options,
+  onCommit,
+  onCancel,
+}: EditorProps & { options: { label: string; value: string }[] }) {
+  // Closing the dropdown without picking an option cancels the edit
+  const committedRef = React.useRef(false);
+
+  return (
+    <Select
+      defaultOpen
+      defaultValue={value == null ? undefined : String(value)}
+      onValueChange={(newValue) => {
+        committedRef.current = onCommit(newValue);
+      }}
+      onOpenChange={(open) => {
+        if (!open && !committedRef.current) onCancel();
+      }}
+    >
+      <SelectTrigger className="w-full px-1 data-[size=default]:h-6">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function StarRatingEditor({
+  value,
+  maxStars,
+  onCommit,
+  onCancel,
+}: EditorProps & { maxStars: number }) {
+  const [rating, setRating] = React.useState(
+    typeof value === "number" ? Math.round(value) : 0,
+  );
+  const [hoverRating, setHoverRating] = React.useState<number | null>(null);
+  const doneRef = React.useRef(false);
+  const containerRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    containerRef.current?.focus();
+  }, []);
+
+  const commit = (newRating: number, moveBy?: 1 | -1) => {
+    if (doneRef.current) return;
+    doneRef.current = onCommit(newRating, moveBy);
+  };
+
+  const cancel = () => {
+    doneRef.current = true;
+    onCancel();
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      role="slider"
+      aria-label="Rating"
+      aria-valuemin={0}
+      aria-valuemax={maxStars}
+      aria-valuenow={rating}
+      onKeyDown={(e) => {
+        if (e.key === "ArrowRight" || e.key === "ArrowUp") {
+          e.preventDefault();
+          setRating((old) => Math.min(old + 1, maxStars));
+        } else if (e.key === "ArrowLeft" || e.key === "ArrowDown") {
+          e.preventDefault();
+          setRating((old) => Math.max(old - 1, 0));
+        } else if (/^[0-9]$/.test(e.key) && Number(e.key) <= maxStars) {
+          setRating(Number(e.key));
+        } else {
+          handleEditorKeyDown(e, (moveBy) => commit(rating, moveBy), cancel);
+        }
+      }}
+      onBlur={() => commit(rating)}
+      className="relative inline-flex rounded-sm outline-none focus-visible:ring-2 focus-visible:ring-ring"
+    >
+      <StarRating
+        rating={hoverRating ?? rating}
+        maxRating={maxStars}
+        showTooltip={false}
+      />
+      {/* One click target per star on top of the stars */}
+      <div
+        className="absolute inset-0 flex"
+        onMouseLeave={() => setHoverRating(null)}
+      >
+        {Array.from({ length: maxStars }, (_, index) => (
+          <button
+            key={index}
+            type="button"
+            tabIndex={-1}
+            aria-label={`${index + 1} of ${maxStars}`}
+            className="h-full flex-1 cursor-pointer"
+            onMouseEnter={() => setHoverRating(index + 1)}
+            // Keep the focus, so the click doesn't commit through the blur first
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => commit(index + 1)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function CellEditor<TData, TValue>({
+  cell,
+  config,
+  editing,
+}: CellEditorProps<TData, TValue>) {
+  const [error, setError] = React.useState<string | null>(null);
+  const { meta } = cell.column.columnDef;
+
+  const editorProps: EditorProps = {
+    value: cell.getValue(),
+    onCommit: (value, moveBy) => {
+      const validationError = editing.commitEdit(value, moveBy);
+      setError(validationError);
+      return validationError === null;
+    },
+    onCancel: editing.cancelEditing,
+    onError: setError,
+  };
+
+  const renderEditor = () => {
+    switch (config.type ?? "text") {
+      case "number":
+      case "money":
+        return <TextEditor {...editorProps} numeric />;
+      case "date":
+        return <DateEditor {...editorProps} />;
+      case "category":
+        return (
+          <CategoryEditor
+            {...editorProps}
+            options={config.options ?? meta?.options ?? []}
+          />
+        );
+      case "starRating":
+        return (
+          <StarRatingEditor
+            {...editorProps}
+            maxStars={config.maxStars ?? meta?.maxStars ?? 5}
+          />
+        );
+      default:
+        return <TextEditor {...editorProps} numeric={false} />;
+    }
+  };
+
+  return (
+    <div
+      className="relative w-full"
+      aria-invalid={error !== null}
+      // Keep editor interactions away from the row handlers
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      {renderEditor()}
+      {error && (
+        <div
+          role="alert"
+          className="absolute left-0 top-full z-30 mt-1 max-w-64 whitespace-normal rounded-md border border-destructive/50 bg-background px-2 py-1 text-xs text-destructive shadow-md"
+        >
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
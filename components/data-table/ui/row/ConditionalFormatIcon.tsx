@@ -0,0 +1,30 @@
+/**
+ * Icon of an icon set conditional format, shown in front of the cell value.
+ */
+
+import * as React from "react";
+import { ArrowDown, ArrowRight, ArrowUp, Circle } from "lucide-react";
+import { ConditionalFormatIcon as ConditionalFormatIconInfo } from "@/components/data-table/utils/conditionalFormatting";
+
+// Low, middle and high third of the range
+const LEVEL_COLORS = ["text-red-500", "text-amber-500", "text-green-600"];
+const ARROW_ICONS = [ArrowDown, ArrowRight, ArrowUp];
+
+export function ConditionalFormatIcon({
+  icon,
+}: {
+  icon: ConditionalFormatIconInfo;
+}) {
+  const className = `mr-1 inline-block h-3.5 w-3.5 align-[-2px] ${
+    LEVEL_COLORS[icon.level]
+  }`;
+
+  if (icon.iconSet === "trafficLights") {
+    return (
+      <Circle className={className} fill="currentColor" aria-hidden="true" />
+    );
+  }
+
+  const Arrow = ARROW_ICONS[icon.level];
+  return <Arrow className={className} aria-hidden="true" />;
+}
@@ -0,0 +1,85 @@
+/**
+ * Built-in detail panel column, added when the table renders detail panels.
+ * Renders an expand-all/collapse-all button in the header and a chevron per leaf
+ * row that opens and closes the detail panel under the row.
+ */
+
+import * as React from "react";
+import { ColumnDef } from "@tanstack/react-table";
+import { Button } from "@/components/ui/button";
+import {
+  ChevronDown,
+  ChevronRight,
+  ChevronsDownUp,
+  ChevronsUpDown,
+} from "lucide-react";
+
+export const DETAIL_PANEL_COLUMN_ID = "detail";
+
+/**
+ * Whether a row shows a detail panel when expanded. Group rows and the parent
+ * rows of tree data expand into their child rows instead.
+ */
+export const hasDetailPanel = (row: { subRows?: unknown[] }) =>
+  !row.subRows?.length;
+
+/**
+ * Create the detail panel column definition
+ */
+export function createDetailPanelColumn<TData>(): ColumnDef<TData> {
+  return {
+    id: DETAIL_PANEL_COLUMN_ID,
+    size: 40,
+    minSize: 40,
+    maxSize: 40,
+    enableSorting: false,
+    enableHiding: false,
+    enableResizing: false,
+    enableGrouping: false,
+    enableColumnFilter: false,
+    enableGlobalFilter: false,
+    header: ({ table }) => {
+      const isAllExpanded = table.getIsAllRowsExpanded();
+      return (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 p-0"
+          aria-label={isAllExpanded ? "Collapse all rows" : "Expand all rows"}
+          onClick={() => table.toggleAllRowsExpanded(!isAllExpanded)}
+        >
+          {isAllExpanded ? (
+            <ChevronsDownUp className="h-3.5 w-3.5" />
+          ) : (
+            <ChevronsUpDown className="h-3.5 w-3.5" />
+          )}
+        </Button>
+      );
+    },
+    cell: ({ row }) => {
+      if (!hasDetailPanel(row)) return null;
+
+      const isExpanded = row.getIsExpanded();
+      return (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-4 w-4 p-0"
+          aria-label={isExpanded ? "Hide details" : "Show details"}
+          aria-expanded={isExpanded}
+          onClick={(event) => {
+            // Don't let the click toggle the expansion of group rows
+            event.stopPropagation();
+            row.toggleExpanded();
+          }}
+        >
+          {isExpanded ? (
+            <ChevronDown className="h-3.5 w-3.5" />
+          ) : (
+            <ChevronRight className="h-3.5 w-3.5" />
+          )}
+        </Button>
+      );
+    },
+  };
+}
@@ -5,11 +5,40 @@
  */
 
 import * as React from "react";
-import { Row, flexRender, GroupingState } from "@tanstack/react-table";
+import { Cell, Row, flexRender, GroupingState } from "@tanstack/react-table";
 import { VirtualItem, Virtualizer } from "@tanstack/react-virtual";
 import { TableCell, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { ChevronDown, ChevronRight } from "lucide-react";
+import { getColumnCellStyles } from "@/components/data-table/utils/columnStyles";
+import {
+  getCellEditorConfig,
+  isCellEditable,
+} from "@/components/data-table/utils/cellEditing";
+import { CellEditor } from "@/components/data-table/ui/row/CellEditor";
+import { SELECTION_COLUMN_ID } from "@/components/data-table/ui/row/SelectionColumn";
+import {
+  DETAIL_PANEL_COLUMN_ID,
+  hasDetailPanel,
+} from "@/components/data-table/ui/row/DetailPanelColumn";
+import { ConditionalFormatIcon } from "@/components/data-table/ui/row/ConditionalFormatIcon";
+import { ROW_HEIGHT } from "@/components/data-table/hooks/useTableVirtualization";
+import {
+  CellFormat,
+  getTableCellFormatter,
+} from "@/components/data-table/utils/conditionalFormatting";
+import { isRollUpColumn } from "@/components/data-table/utils/treeData";
+import { getAggregatedCellTemplate } from "@/components/data-table/utils/aggregationRegistry";
+import { GridCellPosition } from "@/components/data-table/types";
+
+// Focus ring of the keyboard-focused cell, and an overlay on selected cell ranges
+// that also covers the opaque background of pinned cells
+const GRID_CELL_FOCUS_CLASS =
+  "outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring aria-selected:relative aria-selected:after:pointer-events-none aria-selected:after:absolute aria-selected:after:inset-0 aria-selected:after:bg-primary/10";
+
+// Interactive elements that handle their own mouse events inside a cell
+const CELL_CONTROL_SELECTOR =
+  "button, input, select, textarea, a, [role=checkbox], [role=combobox], [role=slider]";
 
 /**
  * Interface defining the properties required for rendering a table row.
@@ -20,6 +49,9 @@ import { ChevronDown, ChevronRight } from "lucide-react";
  * @param virtualizer - Virtualizer instance for dynamic height management
  * @param grouping - Current grouping state that affects row rendering and hierarchy
  * @param stickyGroupHeaders - Array of row indices that should be sticky (parent group headers)
+ * @param ariaRowIndex - 1-based position of the row in the grid, counting the header rows
+ * @param activeColumnIndex - Index of the cell in the tab sequence, when it is in this row
+ * @param onCellFocus - Called when a cell of the row receives focus
  */
 interface TableRowProps<TData> {
   row: Row<TData>;
@@ -29,21 +61,29 @@ interface TableRowProps<TData> {
   virtualizer: Virtualizer<HTMLDivElement, HTMLTableRowElement>;
   grouping: GroupingState;
   stickyGroupHeaders?: number[];
+  ariaRowIndex: number;
+  activeColumnIndex?: number | null;
+  onCellFocus?: (position: GridCellPosition) => void;
 }
 
 /**
  * Renders a table row with support for grouping, virtualization, and sticky headers.
  *
  * Rendering logic flow:
- * 1. Determines if row is a parent row (has subRows and grouping is active)
+ * 1. Determines if row is a parent row (has subRows from grouping or tree data)
  * 2. Calculates sticky positioning for parent rows if needed
  * 3. Renders each cell with appropriate content based on grouping context
  *
  * Cell content rendering rules:
  * - Parent rows with subRows show expand/collapse controls for the active grouping level
  * - Group header cells include the count of subrows in parentheses
- * - Leaf nodes (rows without children) don't display content for grouped columns
+ * - Leaf nodes (rows that are not groups) don't display content for grouped columns
  * - Cells are indented based on their depth in the grouping hierarchy
+ * - Tree data shows the hierarchy in the first data column, with the same
+ *   indentation and controls as groups
+ * - Expanded leaf rows show their detail panel under the cells, and the row
+ *   grows to fit it
+ * - Conditional formats add colors, data bars and icons to numeric cells
  *
  * @returns A table row with properly styled and positioned cells
  */
@@ -55,11 +95,23 @@ export function TableRowComponent<TData>({
   virtualizer,
   grouping,
   stickyGroupHeaders = [],
+  ariaRowIndex,
+  activeColumnIndex = null,
+  onCellFocus,
 }: TableRowProps<TData>) {
+  // Tree data, inline editing, cell range and conditional format state, shared
+  // through the table meta
+  const table = row.getAllCells()[0]?.getContext().table;
+  const tableMeta = table?.options.meta;
+  const isTreeData = Boolean(tableMeta?.isTreeData);
+
   // Determine if this row should be sticky
   const isParentRow =
-    row.subRows && row.subRows.length > 0 && grouping.length > 0;
-  const isLeafNode = !row.subRows || row.subRows.length === 0;
+    row.subRows &&
+    row.subRows.length > 0 &&
+    (grouping.length > 0 || isTreeData);
+  // The innermost groups of a pivot are shown without their rows
+  const isLeafNode = !row.getIsGrouped();
   const rowIndex = rows.findIndex((r: Row<TData>) => r.id === row.id);
   const isSticky = isParentRow && stickyGroupHeaders.includes(rowIndex);
 
@@ -84,6 +136,97 @@ export function TableRowComponent<TData>({
     ? 1000 - stickyPosition // High z-index but lower than header's 2000
     : undefined;
 
+  // Detail panel under an expanded leaf row
+  const renderDetailPanel = tableMeta?.renderDetailPanel;
+  const isDetailPanelOpen =
+    Boolean(renderDetailPanel) && hasDetailPanel(row) && row.getIsExpanded();
+
+  // Conditional formats color the cells and add icons in front of the values
+  const cellFormatter =
+    table && tableMeta?.conditionalFormats?.length
+      ? getTableCellFormatter(table)
+      : null;
+  const getCellFormat = (cell: Cell<TData, unknown>) =>
+    cellFormatter && !cell.getIsPlaceholder()
+      ? cellFormatter(row, cell.column.id)
+      : null;
+
+  // Cells keep the row height when the detail panel wraps below them
+  const getCellStyles = (
+    cell: Cell<TData, unknown>,
+    cellFormat?: CellFormat | null,
+  ): React.CSSProperties => ({
+    ...getColumnCellStyles(cell.column),
+    ...(isDetailPanelOpen ? { height: ROW_HEIGHT } : {}),
+    ...cellFormat?.style,
+  });
+
+  const editing = tableMeta?.editing;
+  const cellRange = tableMeta?.cellRange;
+  const isEditingRow = editing?.editingCell?.rowId === row.id;
+
+  // ARIA grid cell attributes and range selection handlers; only the active
+  // cell is in the tab sequence
+  const getGridCellProps = (cellIndex: number) => {
+    const position = { rowIndex: virtualRow.index, columnIndex: cellIndex };
+    return {
+      role: "gridcell",
+      "aria-colindex": cellIndex + 1,
+      "aria-selected": cellRange?.isCellInRange(position) || undefined,
+      tabIndex: activeColumnIndex === cellIndex ? 0 : -1,
+      onFocus: () => onCellFocus?.(position),
+      onMouseDown: (event: React.MouseEvent<HTMLElement>) => {
+        // Leave clicks on controls inside the cell alone
+        const target = event.target as HTMLElement;
+        if (event.button !== 0 || target.closest(CELL_CONTROL_SELECTOR)) {
+          return;
+        }
+        cellRange?.startSelection(position, event.shiftKey);
+      },
+      onMouseEnter: () => cellRange?.extendSelection(position),
+    };
+  };
+
+  // Tree data shows the hierarchy in the first data column
+  const treeColumnId = isTreeData
+    ? row
+        .getVisibleCells()
+        .find(
+          (cell) =>
+            cell.column.id !== SELECTION_COLUMN_ID &&
+            cell.column.id !== DETAIL_PANEL_COLUMN_ID,
+        )?.column.id
+    : undefined;
+
+  // Parent rows of tree data only roll up the columns with an aggregation
+  // function, the other columns show the values of the parent itself
+  const getCellRenderer = (cell: Cell<TData, unknown>) => {
+    const aggregatedCell = getAggregatedCellTemplate(cell.column);
+    return cell.getIsAggregated() &&
+      aggregatedCell &&
+      (!isTreeData || isRollUpColumn(cell.column))
+      ? aggregatedCell
+      : cell.column.columnDef.cell;
+  };
+
+  const expandButton = (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="mr-1 h-4 w-4 p-0"
+      onClick={(e) => {
+        e.stopPropagation();
+        row.toggleExpanded();
+      }}
+    >
+      {row.getIsExpanded() ? (
+        <ChevronDown className="h-3.5 w-3.5" />
+      ) : (
+        <ChevronRight className="h-3.5 w-3.5" />
+      )}
+    </Button>
+  );
+
   /**
    * Handles row click events - toggles expansion for parent rows
    */
@@ -95,13 +238,22 @@ export function TableRowComponent<TData>({
 
   return (
     <TableRow
+      role="row"
+      aria-rowindex={ariaRowIndex}
+      aria-expanded={row.getCanExpand() ? row.getIsExpanded() : undefined}
+      aria-selected={row.getCanSelect() ? row.getIsSelected() : undefined}
       data-index={virtualRow.index}
       data-state={row.getIsSelected() && "selected"}
       className={`flex items-center w-full ${
+        isDetailPanelOpen ? "flex-wrap" : ""
+      } ${
         isSticky
           ? "sticky backdrop-blur bg-background/95 border-b border-border z-5"
           : ""
-      } ${isParentRow && row.depth === 0 ? "bg-gray-100 cursor-pointer" : ""} py-0`}
+      } ${isParentRow && row.depth === 0 ? "bg-gray-100 cursor-pointer" : ""} ${
+        // Pinned cells inherit the row background, so every row needs one
+        !isSticky && !(isParentRow && row.depth === 0) ? "bg-background" : ""
+      } py-0`}
       onClick={handleRowClick}
       ref={(node: HTMLTableRowElement | null) => {
         if (node) {
@@ -114,12 +266,15 @@ export function TableRowComponent<TData>({
       style={{
         position: isSticky ? "sticky" : "absolute",
         top: isSticky ? stickyTop : 0,
-        height: `${virtualRow.size}px`,
+        // Rows with an open detail panel take the height of their content,
+        // which the virtualizer measures
+        height: isDetailPanelOpen ? undefined : `${ROW_HEIGHT}px`,
         transform: isSticky ? "none" : `translateY(${virtualRow.start}px)`,
-        zIndex: stickyZIndex,
+        // Lift the row being edited so editor errors overlap the rows below
+        zIndex: stickyZIndex ?? (isEditingRow ? 2 : undefined),
       }}
     >
-      {row.getVisibleCells().map((cell) => {
+      {row.getVisibleCells().map((cell, cellIndex) => {
         /**
          * Cell content visibility logic:
          * 1. Determine if this column is used for grouping
@@ -140,34 +295,54 @@ export function TableRowComponent<TData>({
           return (
             <TableCell
               key={cell.id}
-              style={{
-                flex: cell.column.getSize()
-                  ? `${cell.column.getSize()} 0 0`
-                  : 1,
-                width: cell.column.getSize()
-                  ? `${cell.column.getSize()}px`
-                  : "auto",
-              }}
+              {...getGridCellProps(cellIndex)}
+              data-column-id={cell.column.id}
+              className={GRID_CELL_FOCUS_CLASS}
+              style={getCellStyles(cell)}
             >
               {/* Empty space instead of grouped column content for leaf nodes */}
             </TableCell>
           );
         }
 
+        const cellFormat = getCellFormat(cell);
+
+        // Inline editing: double-click starts editing an editable cell
+        const isEditable = Boolean(editing) && isCellEditable(row, cell.column);
+        const isEditing =
+          isEditable &&
+          isEditingRow &&
+          editing?.editingCell?.columnId === cell.column.id;
+        const editError = editing?.getCellError(row.id, cell.column.id);
+        const isPending = editing?.isCellPending(row.id, cell.column.id);
+
         return (
           <TableCell
             key={cell.id}
-            className={`overflow-hidden text-ellipsis whitespace-nowrap ${
+            {...getGridCellProps(cellIndex)}
+            data-column-id={cell.column.id}
+            className={`${GRID_CELL_FOCUS_CLASS} ${
+              isEditing ? "overflow-visible" : "overflow-hidden"
+            } text-ellipsis whitespace-nowrap ${
               isGroupedColumn ? "font-medium" : ""
+            } ${isPending ? "opacity-60" : ""} ${
+              editError ? "ring-1 ring-inset ring-destructive" : ""
             }`}
-            style={{
-              flex: cell.column.getSize() ? `${cell.column.getSize()} 0 0` : 1,
-              width: cell.column.getSize()
-                ? `${cell.column.getSize()}px`
-                : "auto",
-            }}
+            style={getCellStyles(cell, cellFormat)}
+            title={editError}
+            onDoubleClick={
+              isEditable && !isEditing
+                ? () => editing?.startEditing(row.id, cell.column.id)
+                : undefined
+            }
           >
-            {isGroupedColumn && row.subRows?.length > 0 ? (
+            {isEditing && editing ? (
+              <CellEditor
+                cell={cell}
+                config={getCellEditorConfig(cell.column.columnDef) ?? {}}
+                editing={editing}
+              />
+            ) : isGroupedColumn && row.subRows?.length > 0 ? (
               <div className="flex items-center">
                 <div
                   style={{
@@ -181,23 +356,7 @@ export function TableRowComponent<TData>({
                    * 1. Show expand/collapse button
                    * 2. When expanded, show chevron down; when collapsed, show chevron right
                    */}
-                  {isActiveGroupingLevel && (
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="mr-1 h-4 w-4 p-0"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        row.toggleExpanded();
-                      }}
-                    >
-                      {row.getIsExpanded() ? (
-                        <ChevronDown className="h-3.5 w-3.5" />
-                      ) : (
-                        <ChevronRight className="h-3.5 w-3.5" />
-                      )}
-                    </Button>
-                  )}
+                  {isActiveGroupingLevel && expandButton}
                   {/*
                    * Cell content rendering:
                    * 1. For grouped columns, show cell content only at the active level
@@ -207,13 +366,7 @@ export function TableRowComponent<TData>({
                   {shouldShowContent && (
                     <>
                       <span className="block overflow-hidden text-ellipsis">
-                        {flexRender(
-                          cell.getIsAggregated() &&
-                            cell.column.columnDef.aggregatedCell
-                            ? cell.column.columnDef.aggregatedCell
-                            : cell.column.columnDef.cell,
-                          cell.getContext(),
-                        )}
+                        {flexRender(getCellRenderer(cell), cell.getContext())}
                       </span>
                       {isActiveGroupingLevel && (
                         <span className="ml-2 text-muted-foreground">
@@ -224,6 +377,21 @@ export function TableRowComponent<TData>({
                   )}
                 </div>
               </div>
+            ) : cell.column.id === treeColumnId ? (
+              <div
+                className="flex items-center"
+                style={{ paddingLeft: `${row.depth * 1.5}rem` }}
+              >
+                {/* Leaf rows keep the space of the chevron to stay aligned */}
+                {row.getCanExpand() ? (
+                  expandButton
+                ) : (
+                  <span className="mr-1 h-4 w-4 shrink-0" />
+                )}
+                <span className="block overflow-hidden text-ellipsis">
+                  {flexRender(getCellRenderer(cell), cell.getContext())}
+                </span>
+              </div>
             ) : (
               <span
                 className="block overflow-hidden text-ellipsis"
@@ -236,17 +404,28 @@ export function TableRowComponent<TData>({
                  * 1. Render cell content with appropriate indentation
                  * 2. Use aggregatedCell renderer for aggregated cells if available
                  */}
-                {flexRender(
-                  cell.getIsAggregated() && cell.column.columnDef.aggregatedCell
-                    ? cell.column.columnDef.aggregatedCell
-                    : cell.column.columnDef.cell,
-                  cell.getContext(),
+                {shouldShowContent && cellFormat?.icon && (
+                  <ConditionalFormatIcon icon={cellFormat.icon} />
                 )}
+                {shouldShowContent &&
+                  flexRender(getCellRenderer(cell), cell.getContext())}
               </span>
             )}
           </TableCell>
         );
       })}
+      {isDetailPanelOpen && renderDetailPanel && (
+        <TableCell
+          role="gridcell"
+          aria-colspan={row.getVisibleCells().length}
+          aria-label="Row details"
+          // Wraps onto its own line under the cells of the row
+          className="basis-full select-text whitespace-normal border-t bg-muted/30 p-4"
+          onClick={(event) => event.stopPropagation()}
+        >
+          {renderDetailPanel(row)}
+        </TableCell>
+      )}
     </TableRow>
   );
 }
@@ -0,0 +1,130 @@
+/**
+ * Built-in row selection column. Renders a tri-state "select all" checkbox in the
+ * header and a checkbox per row; group header rows select every leaf row below
+ * them, and shift-clicking selects the range of rows from the last clicked row.
+ */
+
+import * as React from "react";
+import { ColumnDef, Row, Table } from "@tanstack/react-table";
+import { Checkbox } from "@/components/ui/checkbox";
+
+export const SELECTION_COLUMN_ID = "select";
+
+// Checked state for a checkbox, "indeterminate" when only part of the rows is selected
+const getCheckedState = (isAll: boolean, isSome: boolean) =>
+  isAll ? true : isSome ? "indeterminate" : false;
+
+// Leaf rows covered by a visible row: the row itself or every leaf of a group row
+const getLeafRows = <TData,>(row: Row<TData>): Row<TData>[] =>
+  row.getIsGrouped()
+    ? row.getLeafRows().filter((r) => !r.getIsGrouped())
+    : [row];
+
+/**
+ * Create the selection column definition. Each table needs its own instance since
+ * the column remembers the anchor row of shift-click range selection.
+ */
+export function createSelectionColumn<TData>(): ColumnDef<TData> {
+  // Row id of the last row clicked without shift, start of the next range selection
+  let anchorRowId: string | null = null;
+
+  const selectRange = (
+    table: Table<TData>,
+    targetRow: Row<TData>,
+    value: boolean,
+  ) => {
+    const visibleRows = table.getRowModel().rows;
+    const anchorIndex = visibleRows.findIndex((r) => r.id === anchorRowId);
+    const targetIndex = visibleRows.findIndex((r) => r.id === targetRow.id);
+
+    if (anchorIndex < 0 || targetIndex < 0) {
+      targetRow.toggleSelected(value);
+      return;
+    }
+
+    const [start, end] =
+      anchorIndex < targetIndex
+        ? [anchorIndex, targetIndex]
+        : [targetIndex, anchorIndex];
+    const rangeLeafRows = visibleRows
+      .slice(start, end + 1)
+      .flatMap(getLeafRows);
+
+    table.setRowSelection((old) => {
+      const next = { ...old };
+      rangeLeafRows.forEach((leafRow) => {
+        if (value) {
+          next[leafRow.id] = true;
+        } else {
+          delete next[leafRow.id];
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleRowClick = (
+    event: React.MouseEvent,
+    table: Table<TData>,
+    row: Row<TData>,
+    value: boolean,
+  ) => {
+    // Don't let the click toggle the expansion of group rows
+    event.stopPropagation();
+
+    if (event.shiftKey && anchorRowId) {
+      selectRange(table, row, value);
+    } else {
+      row.toggleSelected(value);
+    }
+    anchorRowId = row.id;
+  };
+
+  return {
+    id: SELECTION_COLUMN_ID,
+    size: 40,
+    minSize: 40,
+    maxSize: 40,
+    enableSorting: false,
+    enableHiding: false,
+    enableResizing: false,
+    enableGrouping: false,
+    enableColumnFilter: false,
+    enableGlobalFilter: false,
+    header: ({ table }) => (
+      <Checkbox
+        aria-label="Select all rows"
+        checked={getCheckedState(
+          table.getIsAllRowsSelected(),
+          table.getIsSomeRowsSelected(),
+        )}
+        onCheckedChange={(checked) => table.toggleAllRowsSelected(!!checked)}
+      />
+    ),
+    cell: ({ row, table }) => {
+      // Group header rows reflect and toggle the selection of all their leaf rows
+      if (row.getIsGrouped()) {
+        const isAllSelected = row.getIsAllSubRowsSelected();
+        return (
+          <Checkbox
+            aria-label="Select group"
+            checked={getCheckedState(isAllSelected, row.getIsSomeSelected())}
+            onClick={(event) =>
+              handleRowClick(event, table, row, !isAllSelected)
+            }
+          />
+        );
+      }
+
+      const isSelected = row.getIsSelected();
+      return (
+        <Checkbox
+          aria-label="Select row"
+          checked={isSelected}
+          disabled={!row.getCanSelect()}
+          onClick={(event) => handleRowClick(event, table, row, !isSelected)}
+        />
+      );
+    },
+  };
+}
@@ -23,8 +23,16 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { Button } from "@/components/ui/button";
-import { GripVertical, RotateCcw } from "lucide-react";
+import {
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  GripVertical,
+  RotateCcw,
+} from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { ColumnPinningState } from "@tanstack/react-table";
+
+type PinnedSide = "left" | "right" | false;
 
 interface ColumnOrderItem {
   id: string;
@@ -33,10 +41,16 @@ interface ColumnOrderItem {
 
 interface SortableColumnItemProps {
   column: ColumnOrderItem;
+  pinnedSide?: PinnedSide;
+  onPinChange?: (side: PinnedSide) => void;
 }
 
 // Sortable Item component for column ordering
-const SortableColumnItem = ({ column }: SortableColumnItemProps) => {
+const SortableColumnItem = ({
+  column,
+  pinnedSide = false,
+  onPinChange,
+}: SortableColumnItemProps) => {
   const { attributes, listeners, setNodeRef, transform, transition } =
     useSortable({ id: column.id });
 
@@ -54,7 +68,35 @@ const SortableColumnItem = ({ column }: SortableColumnItemProps) => {
       <span {...attributes} {...listeners} className="cursor-grab">
         <GripVertical className="h-4 w-4 text-muted-foreground" />
       </span>
-      <span className="text-sm">{column.label}</span>
+      <span className="flex-1 text-sm">{column.label}</span>
+      {onPinChange && (
+        <div className="flex gap-0.5">
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`h-6 w-6 p-0 ${
+              pinnedSide === "left" ? "bg-accent text-primary" : ""
+            }`}
+            onClick={() => onPinChange(pinnedSide === "left" ? false : "left")}
+          >
+            <ArrowLeftToLine className="h-3.5 w-3.5" />
+            <span className="sr-only">Pin left</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`h-6 w-6 p-0 ${
+              pinnedSide === "right" ? "bg-accent text-primary" : ""
+            }`}
+            onClick={() =>
+              onPinChange(pinnedSide === "right" ? false : "right")
+            }
+          >
+            <ArrowRightToLine className="h-3.5 w-3.5" />
+            <span className="sr-only">Pin right</span>
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
@@ -63,12 +105,16 @@ export interface ColumnOrderingPanelProps {
   columns: { id: string; label: string }[];
   columnOrder: string[];
   onColumnOrderChange: (updater: React.SetStateAction<string[]>) => void;
+  columnPinning?: ColumnPinningState;
+  onColumnPinningChange?: (columnPinning: ColumnPinningState) => void;
 }
 
 export function ColumnOrderingPanel({
   columns,
   columnOrder,
   onColumnOrderChange,
+  columnPinning,
+  onColumnPinningChange,
 }: ColumnOrderingPanelProps) {
   const sensors = useSensors(
     useSensor(PointerSensor),
@@ -104,6 +150,33 @@ export function ColumnOrderingPanel({
     setLocalOrderedColumns(ordered);
   }, [columns, columnOrder]);
 
+  // Local copy of the pinning so toggles show up immediately
+  const [localPinning, setLocalPinning] = React.useState<ColumnPinningState>(
+    columnPinning ?? {},
+  );
+  React.useEffect(() => {
+    setLocalPinning(columnPinning ?? {});
+  }, [columnPinning]);
+
+  const getPinnedSide = (columnId: string): PinnedSide =>
+    localPinning.left?.includes(columnId)
+      ? "left"
+      : localPinning.right?.includes(columnId)
+        ? "right"
+        : false;
+
+  const handlePinChange = (columnId: string, side: PinnedSide) => {
+    const nextPinning: ColumnPinningState = {
+      left: (localPinning.left ?? []).filter((id) => id !== columnId),
+      right: (localPinning.right ?? []).filter((id) => id !== columnId),
+    };
+    if (side) {
+      nextPinning[side] = [...(nextPinning[side] ?? []), columnId];
+    }
+    setLocalPinning(nextPinning);
+    onColumnPinningChange?.(nextPinning);
+  };
+
   // Handle drag end event
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
@@ -169,7 +242,16 @@ export function ColumnOrderingPanel({
           >
             <div>
               {localOrderedColumns.map((column) => (
-                <SortableColumnItem key={column.id} column={column} />
+                <SortableColumnItem
+                  key={column.id}
+                  column={column}
+                  pinnedSide={getPinnedSide(column.id)}
+                  onPinChange={
+                    onColumnPinningChange
+                      ? (side) => handlePinChange(column.id, side)
+                      : undefined
+                  }
+                />
               ))}
             </div>
           </SortableContext>
@@ -177,7 +259,10 @@ export function ColumnOrderingPanel({
       </ScrollArea>
 
       <div className="pt-2 text-xs text-muted-foreground">
-        <p>Drag columns to reorder • Click Reset to restore default order</p>
+        <p>
+          Drag columns to reorder • Pin columns to keep them visible while
+          scrolling • Click Reset to restore default order
+        </p>
       </div>
     </div>
   );
@@ -0,0 +1,242 @@
+"use client";
+
+import * as React from "react";
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { SortingState } from "@tanstack/react-table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDown, ArrowUp, GripVertical, Plus, X } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface SortableColumn {
+  id: string;
+  label: string;
+}
+
+interface SortItemProps {
+  id: string;
+  label: string;
+  priority: number;
+  desc: boolean;
+  onToggleDirection: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+// Sortable item for one level of the sort
+const SortItem = ({
+  id,
+  label,
+  priority,
+  desc,
+  onToggleDirection,
+  onRemove,
+}: SortItemProps) => {
+  const { attributes, listeners, setNodeRef, transform, transition } =
+    useSortable({ id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className="flex items-center gap-2 bg-accent text-accent-foreground rounded-md px-2 py-1"
+    >
+      <span {...attributes} {...listeners} className="cursor-grab">
+        <GripVertical className="h-4 w-4" />
+      </span>
+      <span className="flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-medium text-primary-foreground">
+        {priority}
+      </span>
+      <span className="text-sm flex-1">{label}</span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 gap-1 px-2 text-xs hover:bg-muted"
+        onClick={() => onToggleDirection(id)}
+      >
+        {desc ? (
+          <ArrowDown className="h-3.5 w-3.5" />
+        ) : (
+          <ArrowUp className="h-3.5 w-3.5" />
+        )}
+        {desc ? "Desc" : "Asc"}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-4 w-4 p-0 hover:bg-muted"
+        onClick={() => onRemove(id)}
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+};
+
+interface SortingPanelProps {
+  availableColumns: SortableColumn[];
+  sorting: SortingState;
+  onSortingChange: (sorting: SortingState) => void;
+}
+
+export function SortingPanel({
+  availableColumns,
+  sorting,
+  onSortingChange,
+}: SortingPanelProps) {
+  // Local state to ensure immediate UI updates
+  const [localSorting, setLocalSorting] = React.useState<SortingState>(sorting);
+  const [selectValue, setSelectValue] = React.useState("");
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  );
+
+  // Keep local state in sync with props
+  React.useEffect(() => {
+    setLocalSorting(sorting);
+  }, [sorting]);
+
+  const updateSorting = (newSorting: SortingState) => {
+    setLocalSorting(newSorting);
+    onSortingChange(newSorting);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+
+    if (over && active.id !== over.id) {
+      const ids = localSorting.map((sort) => sort.id);
+      const oldIndex = ids.indexOf(active.id as string);
+      const newIndex = ids.indexOf(over.id as string);
+      updateSorting(arrayMove(localSorting, oldIndex, newIndex));
+    }
+  };
+
+  const handleToggleDirection = (columnId: string) => {
+    updateSorting(
+      localSorting.map((sort) =>
+        sort.id === columnId ? { ...sort, desc: !sort.desc } : sort,
+      ),
+    );
+  };
+
+  const handleRemoveSort = (columnId: string) => {
+    updateSorting(localSorting.filter((sort) => sort.id !== columnId));
+  };
+
+  const handleAddSort = (columnId: string) => {
+    if (columnId && !localSorting.some((sort) => sort.id === columnId)) {
+      updateSorting([...localSorting, { id: columnId, desc: false }]);
+      setSelectValue(""); // Reset select value after adding
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <span className="text-sm font-medium">Sort by:</span>
+        {localSorting.length > 0 ? (
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragEnd={handleDragEnd}
+          >
+            <SortableContext
+              items={localSorting.map((sort) => sort.id)}
+              strategy={verticalListSortingStrategy}
+            >
+              <div className="flex flex-col gap-2">
+                {localSorting.map((sort, index) => {
+                  const column = availableColumns.find(
+                    (col) => col.id === sort.id,
+                  );
+                  return (
+                    <SortItem
+                      key={sort.id}
+                      id={sort.id}
+                      label={column?.label ?? sort.id}
+                      priority={index + 1}
+                      desc={sort.desc}
+                      onToggleDirection={handleToggleDirection}
+                      onRemove={handleRemoveSort}
+                    />
+                  );
+                })}
+              </div>
+            </SortableContext>
+          </DndContext>
+        ) : (
+          <div>
+            <Badge variant="outline" className="text-muted-foreground">
+              No sorting applied
+            </Badge>
+          </div>
+        )}
+      </div>
+      {availableColumns.some(
+        (column) => !localSorting.some((sort) => sort.id === column.id),
+      ) && (
+        <div className="flex items-center gap-2">
+          <span className="text-sm">Add sort:</span>
+          <Select value={selectValue} onValueChange={handleAddSort}>
+            <SelectTrigger className="h-8 w-[180px]">
+              <div className="flex items-center gap-2">
+                <Plus className="h-3.5 w-3.5" />
+                <SelectValue placeholder="Add column..." />
+              </div>
+            </SelectTrigger>
+            <SelectContent>
+              {availableColumns
+                .filter(
+                  (column) =>
+                    !localSorting.some((sort) => sort.id === column.id),
+                )
+                .map((column) => (
+                  <SelectItem key={column.id} value={column.id}>
+                    {column.label}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="pt-4 text-xs text-muted-foreground">
+        <p>
+          Drag to change the sort priority • Shift-click a column header to add
+          it to the sort
+        </p>
+        <p>When rows are grouped, sorting orders the rows within each group</p>
+      </div>
+    </div>
+  );
+}
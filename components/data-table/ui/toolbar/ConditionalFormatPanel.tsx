@@ -0,0 +1,446 @@
+/**
+ * Conditional format panel of the customization dialog. Lists the conditional
+ * format rules of the table and edits their column, type and settings.
+ */
+
+import * as React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, X } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ConditionalFormatRule,
+  ThresholdFormatRule,
+} from "@/components/data-table/types";
+
+interface FormatColumn {
+  id: string;
+  label: string;
+}
+
+const RULE_TYPES: { value: ConditionalFormatRule["type"]; label: string }[] = [
+  { value: "colorScale", label: "Color scale" },
+  { value: "dataBar", label: "Data bar" },
+  { value: "iconSet", label: "Icon set" },
+  { value: "threshold", label: "Highlight values" },
+  { value: "topBottom", label: "Top / bottom N" },
+];
+
+const THRESHOLD_OPERATORS: ThresholdFormatRule["operator"][] = [
+  ">",
+  ">=",
+  "<",
+  "<=",
+  "=",
+  "between",
+];
+
+// Highlight colors, with a bar color for data bars
+const FORMAT_COLORS = [
+  {
+    label: "Green",
+    backgroundColor: "#dcfce7",
+    color: "#166534",
+    bar: "#86efac",
+  },
+  {
+    label: "Red",
+    backgroundColor: "#fee2e2",
+    color: "#991b1b",
+    bar: "#fca5a5",
+  },
+  {
+    label: "Amber",
+    backgroundColor: "#fef3c7",
+    color: "#92400e",
+    bar: "#fcd34d",
+  },
+  {
+    label: "Blue",
+    backgroundColor: "#dbeafe",
+    color: "#1e40af",
+    bar: "#93c5fd",
+  },
+];
+
+const COLOR_SCALES: {
+  label: string;
+  colors: [string, string] | [string, string, string];
+}[] = [
+  { label: "Red - Yellow - Green", colors: ["#f8696b", "#ffeb84", "#63be7b"] },
+  { label: "Green - Yellow - Red", colors: ["#63be7b", "#ffeb84", "#f8696b"] },
+  { label: "White - Green", colors: ["#ffffff", "#63be7b"] },
+  { label: "White - Red", colors: ["#ffffff", "#f8696b"] },
+];
+
+const ICON_SETS = [
+  { value: "arrows", label: "Arrows" },
+  { value: "trafficLights", label: "Traffic lights" },
+];
+
+// Label shown for settings that don't match one of the presets
+const CUSTOM_VALUE = "custom";
+
+const createRuleId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Rule of a type with default settings
+const createRule = (
+  type: ConditionalFormatRule["type"],
+  columnId: string,
+  id = createRuleId(),
+): ConditionalFormatRule => {
+  const { backgroundColor, color, bar } = FORMAT_COLORS[0];
+  switch (type) {
+    case "colorScale":
+      return { id, columnId, type, colors: COLOR_SCALES[0].colors };
+    case "dataBar":
+      return { id, columnId, type, color: bar };
+    case "iconSet":
+      return { id, columnId, type, iconSet: "arrows" };
+    case "threshold":
+      return {
+        id,
+        columnId,
+        type,
+        operator: ">",
+        value: 0,
+        style: { backgroundColor, color },
+      };
+    case "topBottom":
+      return {
+        id,
+        columnId,
+        type,
+        direction: "top",
+        count: 10,
+        style: { backgroundColor, color },
+      };
+  }
+};
+
+interface CompactSelectProps {
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+const CompactSelect = ({
+  value,
+  options,
+  onChange,
+  className = "w-[130px]",
+}: CompactSelectProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className={`h-7 text-xs ${className}`}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {options.map((option) => (
+        <SelectItem key={option.value} value={option.value}>
+          {option.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const colorOptions = (includeCustom: boolean) => [
+  ...FORMAT_COLORS.map((preset) => ({
+    value: preset.label,
+    label: preset.label,
+  })),
+  ...(includeCustom ? [{ value: CUSTOM_VALUE, label: "Custom" }] : []),
+];
+
+const parseNumber = (value: string) => {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : 0;
+};
+
+interface RuleSettingsProps {
+  rule: ConditionalFormatRule;
+  onChange: (rule: ConditionalFormatRule) => void;
+}
+
+// Settings of a rule that depend on its type
+const RuleSettings = ({ rule, onChange }: RuleSettingsProps) => {
+  switch (rule.type) {
+    case "colorScale": {
+      const scale = COLOR_SCALES.find(
+        (preset) => preset.colors.join() === rule.colors.join(),
+      );
+      return (
+        <CompactSelect
+          className="w-[180px]"
+          value={scale?.label ?? CUSTOM_VALUE}
+          options={[
+            ...COLOR_SCALES.map((preset) => ({
+              value: preset.label,
+              label: preset.label,
+            })),
+            ...(scale ? [] : [{ value: CUSTOM_VALUE, label: "Custom" }]),
+          ]}
+          onChange={(label) => {
+            const preset = COLOR_SCALES.find((p) => p.label === label);
+            if (preset) onChange({ ...rule, colors: preset.colors });
+          }}
+        />
+      );
+    }
+    case "dataBar": {
+      const preset = FORMAT_COLORS.find((p) => p.bar === rule.color);
+      return (
+        <CompactSelect
+          value={preset?.label ?? CUSTOM_VALUE}
+          options={colorOptions(!preset)}
+          onChange={(label) => {
+            const next = FORMAT_COLORS.find((p) => p.label === label);
+            if (next) onChange({ ...rule, color: next.bar });
+          }}
+        />
+      );
+    }
+    case "iconSet":
+      return (
+        <CompactSelect
+          value={rule.iconSet}
+          options={ICON_SETS}
+          onChange={(iconSet) =>
+            onChange({
+              ...rule,
+              iconSet: iconSet as typeof rule.iconSet,
+            })
+          }
+        />
+      );
+    case "threshold":
+    case "topBottom": {
+      const preset = FORMAT_COLORS.find(
+        (p) => p.backgroundColor === rule.style.backgroundColor,
+      );
+      const colorSelect = (
+        <CompactSelect
+          className="w-[100px]"
+          value={preset?.label ?? CUSTOM_VALUE}
+          options={colorOptions(!preset)}
+          onChange={(label) => {
+            const next = FORMAT_COLORS.find((p) => p.label === label);
+            if (next) {
+              onChange({
+                ...rule,
+                style: {
+                  backgroundColor: next.backgroundColor,
+                  color: next.color,
+                },
+              });
+            }
+          }}
+        />
+      );
+
+      if (rule.type === "topBottom") {
+        return (
+          <>
+            <CompactSelect
+              className="w-[90px]"
+              value={rule.direction}
+              options={[
+                { value: "top", label: "Top" },
+                { value: "bottom", label: "Bottom" },
+              ]}
+              onChange={(direction) =>
+                onChange({
+                  ...rule,
+                  direction: direction as typeof rule.direction,
+                })
+              }
+            />
+            <Input
+              type="number"
+              min={1}
+              className="h-7 w-[70px] text-xs"
+              aria-label="Number of values"
+              value={rule.count}
+              onChange={(event) =>
+                onChange({ ...rule, count: parseNumber(event.target.value) })
+              }
+            />
+            {colorSelect}
+          </>
+        );
+      }
+
+      return (
+        <>
+          <CompactSelect
+            className="w-[90px]"
+            value={rule.operator}
+            options={THRESHOLD_OPERATORS.map((operator) => ({
+              value: operator,
+              label: operator,
+            }))}
+            onChange={(operator) =>
+              onChange({
+                ...rule,
+                operator: operator as typeof rule.operator,
+              })
+            }
+          />
+          <Input
+            type="number"
+            className="h-7 w-[90px] text-xs"
+            aria-label="Value"
+            value={rule.value}
+            onChange={(event) =>
+              onChange({ ...rule, value: parseNumber(event.target.value) })
+            }
+          />
+          {rule.operator === "between" && (
+            <Input
+              type="number"
+              className="h-7 w-[90px] text-xs"
+              aria-label="Upper value"
+              value={rule.value2 ?? rule.value}
+              onChange={(event) =>
+                onChange({ ...rule, value2: parseNumber(event.target.value) })
+              }
+            />
+          )}
+          {colorSelect}
+        </>
+      );
+    }
+  }
+};
+
+interface ConditionalFormatPanelProps {
+  // Columns whose numeric values can be formatted
+  columns: FormatColumn[];
+  conditionalFormats: ConditionalFormatRule[];
+  onConditionalFormatsChange: (rules: ConditionalFormatRule[]) => void;
+}
+
+export function ConditionalFormatPanel({
+  columns,
+  conditionalFormats,
+  onConditionalFormatsChange,
+}: ConditionalFormatPanelProps) {
+  // Local state to ensure immediate UI updates
+  const [localRules, setLocalRules] =
+    React.useState<ConditionalFormatRule[]>(conditionalFormats);
+
+  // Keep local state in sync with props
+  React.useEffect(() => {
+    setLocalRules(conditionalFormats);
+  }, [conditionalFormats]);
+
+  const updateRules = (rules: ConditionalFormatRule[]) => {
+    setLocalRules(rules);
+    onConditionalFormatsChange(rules);
+  };
+
+  const updateRule = (index: number, rule: ConditionalFormatRule) => {
+    updateRules(
+      localRules.map((current, ruleIndex) =>
+        ruleIndex === index ? rule : current,
+      ),
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2">
+        {localRules.length > 0 ? (
+          localRules.map((rule, index) => (
+            <div
+              key={rule.id}
+              className="flex flex-wrap items-center gap-2 bg-accent text-accent-foreground rounded-md px-2 py-1"
+            >
+              <CompactSelect
+                value={rule.columnId}
+                options={columns.map((column) => ({
+                  value: column.id,
+                  label: column.label,
+                }))}
+                onChange={(columnId) =>
+                  updateRule(index, { ...rule, columnId })
+                }
+              />
+              <CompactSelect
+                value={rule.type}
+                options={RULE_TYPES}
+                onChange={(type) =>
+                  updateRule(
+                    index,
+                    createRule(
+                      type as ConditionalFormatRule["type"],
+                      rule.columnId,
+                      rule.id,
+                    ),
+                  )
+                }
+              />
+              <RuleSettings
+                rule={rule}
+                onChange={(next) => updateRule(index, next)}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="ml-auto h-4 w-4 p-0 hover:bg-muted"
+                aria-label="Remove rule"
+                onClick={() =>
+                  updateRules(
+                    localRules.filter((_, ruleIndex) => ruleIndex !== index),
+                  )
+                }
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))
+        ) : (
+          <div>
+            <Badge variant="outline" className="text-muted-foreground">
+              No conditional formats
+            </Badge>
+          </div>
+        )}
+      </div>
+
+      {columns.length > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 gap-2 text-xs"
+          onClick={() =>
+            updateRules([
+              ...localRules,
+              createRule("colorScale", columns[0].id),
+            ])
+          }
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add rule
+        </Button>
+      )}
+
+      <div className="pt-4 text-xs text-muted-foreground">
+        <p>Rules apply to the numeric values of a column, in order</p>
+        <p>
+          Ranges cover the filtered rows; group rows are compared with the other
+          groups of the same level
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+/**
+ * Export dialog of the data table toolbar. Picks the format, the rows (all data,
+ * filtered, selected or the current page), the columns and their order, raw or
+ * formatted values, the CSV delimiter and encoding, and the file name of an export.
+ */
+
+import * as React from "react";
+import { Table as ReactTable } from "@tanstack/react-table";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ExportColumnSelection,
+  ExportFormat,
+  ExportOptions,
+  ExportScope,
+  getExportableColumns,
+  getExportFilename,
+} from "@/components/data-table/utils/exportUtils";
+import { getColumnExportHeader } from "@/components/data-table/utils/exportMeta";
+
+interface ExportDialogProps<TData> {
+  table: ReactTable<TData>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  format: ExportFormat;
+  options: ExportOptions;
+  onExport: (format: ExportFormat, options: ExportOptions) => void;
+}
+
+// Column of the custom column pick
+interface ExportColumnItem {
+  id: string;
+  label: string;
+  checked: boolean;
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel (.xlsx)" },
+  { value: "json", label: "JSON" },
+  { value: "ndjson", label: "NDJSON" },
+  { value: "markdown", label: "Markdown" },
+];
+
+const DELIMITERS = [
+  { value: ",", label: "Comma" },
+  { value: ";", label: "Semicolon" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe" },
+];
+
+// Label and control on one line of the dialog
+const OptionRow = ({
+  label,
+  htmlFor,
+  children,
+}: {
+  label: string;
+  htmlFor?: string;
+  children: React.ReactNode;
+}) => (
+  <div className="grid grid-cols-[110px_1fr] items-center gap-3">
+    <Label htmlFor={htmlFor} className="text-sm text-muted-foreground">
+      {label}
+    </Label>
+    {children}
+  </div>
+);
+
+export function ExportDialog<TData>({
+  table,
+  open,
+  onOpenChange,
+  format,
+  options,
+  onExport,
+}: ExportDialogProps<TData>) {
+  const [localFormat, setLocalFormat] = React.useState(format);
+  const [localOptions, setLocalOptions] = React.useState(options);
+  const [columnItems, setColumnItems] = React.useState<ExportColumnItem[]>([]);
+
+  // Start from the last used settings whenever the dialog opens
+  React.useEffect(() => {
+    if (!open) return;
+    setLocalFormat(format);
+    setLocalOptions(options);
+
+    // Picked columns first in their order, then the other columns
+    const columns = getExportableColumns(table);
+    const picked = options.columnIds.length
+      ? options.columnIds
+      : columns
+          .filter((column) => column.getIsVisible())
+          .map((column) => column.id);
+    setColumnItems(
+      [
+        ...picked.flatMap(
+          (columnId) => columns.find((column) => column.id === columnId) ?? [],
+        ),
+        ...columns.filter((column) => !picked.includes(column.id)),
+      ].map((column) => ({
+        id: column.id,
+        label: getColumnExportHeader(column),
+        checked: picked.includes(column.id),
+      })),
+    );
+  }, [open, format, options, table]);
+
+  const updateOptions = (update: Partial<ExportOptions>) =>
+    setLocalOptions((current) => ({ ...current, ...update }));
+
+  const moveColumn = (index: number, offset: number) =>
+    setColumnItems((items) => {
+      const target = index + offset;
+      if (target < 0 || target >= items.length) return items;
+      const next = [...items];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const selectedRowCount = open
+    ? table.getSelectedRowModel().flatRows.length
+    : 0;
+  const isPaginated = Boolean(
+    table.options.getPaginationRowModel || table.options.manualPagination,
+  );
+  const columnIds = columnItems
+    .filter((item) => item.checked)
+    .map((item) => item.id);
+  const isCustomEmpty =
+    localOptions.columns === "custom" && columnIds.length === 0;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (isCustomEmpty) return;
+    onExport(localFormat, {
+      ...localOptions,
+      columnIds:
+        localOptions.columns === "custom" ? columnIds : localOptions.columnIds,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Export</DialogTitle>
+            <DialogDescription>
+              Choose the rows, columns and values to export.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <OptionRow label="Format">
+              <Select
+                value={localFormat}
+                onValueChange={(value) => setLocalFormat(value as ExportFormat)}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_FORMATS.map((exportFormat) => (
+                    <SelectItem
+                      key={exportFormat.value}
+                      value={exportFormat.value}
+                    >
+                      {exportFormat.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </OptionRow>
+
+            <OptionRow label="Rows">
+              <Select
+                value={localOptions.scope}
+                onValueChange={(value) =>
+                  updateOptions({ scope: value as ExportScope })
+                }
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All data</SelectItem>
+                  <SelectItem value="filtered">Filtered rows</SelectItem>
+                  <SelectItem value="selected" disabled={!selectedRowCount}>
+                    Selected rows ({selectedRowCount})
+                  </SelectItem>
+                  <SelectItem value="page" disabled={!isPaginated}>
+                    Current page
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </OptionRow>
+
+            <OptionRow label="Columns">
+              <Select
+                value={localOptions.columns}
+                onValueChange={(value) =>
+                  updateOptions({ columns: value as ExportColumnSelection })
+                }
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="visible">Visible columns</SelectItem>
+                  <SelectItem value="all">All columns</SelectItem>
+                  <SelectItem value="custom">Custom...</SelectItem>
+                </SelectContent>
+              </Select>
+            </OptionRow>
+
+            {localOptions.columns === "custom" && (
+              <ScrollArea className="h-[180px] rounded-md border">
+                <div className="p-1">
+                  {columnItems.map((item, index) => (
+                    <div
+                      key={item.id}
+                      className="flex items-center gap-2 rounded-sm px-2 py-1 hover:bg-muted/50"
+                    >
+                      <Checkbox
+                        id={`export-column-${item.id}`}
+                        checked={item.checked}
+                        onCheckedChange={(checked) =>
+                          setColumnItems((items) =>
+                            items.map((current) =>
+                              current.id === item.id
+                                ? { ...current, checked: checked === true }
+                                : current,
+                            ),
+                          )
+                        }
+                      />
+                      <Label
+                        htmlFor={`export-column-${item.id}`}
+                        className="flex-1 truncate text-sm font-normal"
+                      >
+                        {item.label}
+                      </Label>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 p-0"
+                        disabled={index === 0}
+                        onClick={() => moveColumn(index, -1)}
+                      >
+                        <ArrowUp className="h-3.5 w-3.5" />
+                        <span className="sr-only">Move up</span>
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 p-0"
+                        disabled={index === columnItems.length - 1}
+                        onClick={() => moveColumn(index, 1)}
+                      >
+                        <ArrowDown className="h-3.5 w-3.5" />
+                        <span className="sr-only">Move down</span>
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+
+            <OptionRow label="Values">
+              <Select
+                value={localOptions.formattedValues ? "formatted" : "raw"}
+                onValueChange={(value) =>
+                  updateOptions({ formattedValues: value === "formatted" })
+                }
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="raw">Raw values</SelectItem>
+                  <SelectItem value="formatted">Formatted values</SelectItem>
+                </SelectContent>
+              </Select>
+            </OptionRow>
+
+            {localFormat === "csv" && (
+              <>
+                <OptionRow label="Delimiter">
+                  <Select
+                    value={localOptions.delimiter}
+                    onValueChange={(value) =>
+                      updateOptions({ delimiter: value })
+                    }
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DELIMITERS.map((delimiter) => (
+                        <SelectItem
+                          key={delimiter.label}
+                          value={delimiter.value}
+                        >
+                          {delimiter.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </OptionRow>
+
+                <OptionRow label="Encoding">
+                  <Select
+                    value={localOptions.includeBom ? "utf-8-bom" : "utf-8"}
+                    onValueChange={(value) =>
+                      updateOptions({ includeBom: value === "utf-8-bom" })
+                    }
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="utf-8">UTF-8</SelectItem>
+                      <SelectItem value="utf-8-bom">
+                        UTF-8 with BOM (Excel)
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </OptionRow>
+              </>
+            )}
+
+            <OptionRow label="File name" htmlFor="export-filename">
+              <Input
+                id="export-filename"
+                className="h-8"
+                value={localOptions.filename}
+                onChange={(e) => updateOptions({ filename: e.target.value })}
+              />
+            </OptionRow>
+            <p className="text-xs text-muted-foreground">
+              {"{date}, {time} and {timestamp} are replaced: "}
+              {getExportFilename(localOptions.filename, localFormat)}
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isCustomEmpty}>
+              Export
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
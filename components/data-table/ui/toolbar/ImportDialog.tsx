@@ -0,0 +1,333 @@
+/**
+ * Import dialog of the data table toolbar. Reads CSV or TSV data from a file or
+ * pasted text, maps its columns to the table columns, previews the parsed rows
+ * with their validation errors and passes the valid rows to `onImport`.
+ */
+
+import * as React from "react";
+import { Table as ReactTable } from "@tanstack/react-table";
+import { FileUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getImportableColumns,
+  matchImportColumns,
+  parseDelimitedText,
+  parseImportRows,
+} from "@/components/data-table/utils/importUtils";
+import { getColumnExportHeader } from "@/components/data-table/utils/exportMeta";
+
+interface ImportDialogProps<TData> {
+  table: ReactTable<TData>;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (rows: TData[]) => void;
+}
+
+// Select value of source columns that are not imported
+const SKIP_VALUE = "__skip__";
+const PREVIEW_ROW_COUNT = 5;
+const LISTED_ERROR_COUNT = 20;
+
+export function ImportDialog<TData>({
+  table,
+  open,
+  onOpenChange,
+  onImport,
+}: ImportDialogProps<TData>) {
+  const [text, setText] = React.useState("");
+  const [hasHeaders, setHasHeaders] = React.useState(true);
+  // Columns chosen by the user, keyed by header so they survive edits of the text
+  const [mappingOverrides, setMappingOverrides] = React.useState<
+    Map<string, string | null>
+  >(() => new Map());
+  const [fileError, setFileError] = React.useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  // Start empty whenever the dialog opens
+  React.useEffect(() => {
+    if (!open) return;
+    setText("");
+    setHasHeaders(true);
+    setMappingOverrides(new Map());
+    setFileError(null);
+  }, [open]);
+
+  const columns = React.useMemo(
+    () => (open ? getImportableColumns(table) : []),
+    [open, table],
+  );
+  const records = React.useMemo(() => parseDelimitedText(text), [text]);
+  const fieldCount = records.reduce(
+    (count, record) => Math.max(count, record.fields.length),
+    0,
+  );
+  const headers = React.useMemo(
+    () =>
+      Array.from({ length: fieldCount }, (_, index) =>
+        hasHeaders && records[0]?.fields[index]
+          ? records[0].fields[index]
+          : `Column ${index + 1}`,
+      ),
+    [records, fieldCount, hasHeaders],
+  );
+  const dataRecords = React.useMemo(
+    () => (hasHeaders ? records.slice(1) : records),
+    [records, hasHeaders],
+  );
+  const columnLabels = React.useMemo(
+    () =>
+      new Map(
+        columns.map((column) => [column.id, getColumnExportHeader(column)]),
+      ),
+    [columns],
+  );
+
+  // Match headers to columns by name, or take the columns in order without
+  // headers, unless the user chose another column
+  const mapping = React.useMemo(() => {
+    const autoMapping = hasHeaders
+      ? matchImportColumns(headers, columns)
+      : headers.map((_, index) => columns[index]?.id ?? null);
+    const chosenColumnIds = new Set(mappingOverrides.values());
+    return headers.map((header, index) => {
+      const chosenColumnId = mappingOverrides.get(header);
+      if (chosenColumnId !== undefined) return chosenColumnId;
+      // A column takes the values of one field only
+      const columnId = autoMapping[index];
+      return columnId && chosenColumnIds.has(columnId) ? null : columnId;
+    });
+  }, [headers, hasHeaders, columns, mappingOverrides]);
+
+  const result = React.useMemo(
+    () => parseImportRows(dataRecords, mapping, columns),
+    [dataRecords, mapping, columns],
+  );
+  const errorCells = new Set(
+    result.errors.map((error) => `${error.rowNumber}:${error.columnId}`),
+  );
+  const isMapped = mapping.some(Boolean);
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      setText(await file.text());
+      setFileError(null);
+    } catch {
+      setFileError(`Couldn't read ${file.name}`);
+    }
+  };
+
+  const handleMappingChange = (header: string, columnId: string | null) => {
+    setMappingOverrides((current) => {
+      const next = new Map(current);
+      // A column takes the values of one field only
+      next.forEach((otherColumnId, otherHeader) => {
+        if (columnId && otherColumnId === columnId) next.set(otherHeader, null);
+      });
+      next.set(header, columnId);
+      return next;
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!result.rows.length) return;
+    onImport(result.rows);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <form onSubmit={handleSubmit} className="min-w-0 space-y-4">
+          <DialogHeader>
+            <DialogTitle>Import</DialogTitle>
+            <DialogDescription>
+              Choose a CSV or TSV file or paste rows, e.g. copied from a
+              spreadsheet.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Textarea
+              aria-label="Data to import"
+              className="h-28 font-mono text-xs"
+              placeholder="Paste CSV or TSV data"
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setFileError(null);
+              }}
+            />
+            {fileError && (
+              <p role="alert" className="text-xs text-destructive">
+                {fileError}
+              </p>
+            )}
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="import-has-headers"
+                  checked={hasHeaders}
+                  onCheckedChange={(checked) => setHasHeaders(checked === true)}
+                />
+                <Label
+                  htmlFor="import-has-headers"
+                  className="text-sm font-normal"
+                >
+                  First row holds headers
+                </Label>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                className="hidden"
+                onChange={handleFileChange}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <FileUp className="mr-2 h-4 w-4" />
+                Choose file
+              </Button>
+            </div>
+          </div>
+
+          {fieldCount > 0 && (
+            <ScrollArea className="rounded-md border">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b bg-muted/50">
+                    {headers.map((header, index) => (
+                      <th
+                        key={index}
+                        className="min-w-[140px] p-1.5 text-left font-medium"
+                      >
+                        <div className="mb-1 truncate text-muted-foreground">
+                          {header}
+                        </div>
+                        <Select
+                          value={mapping[index] ?? SKIP_VALUE}
+                          onValueChange={(value) =>
+                            handleMappingChange(
+                              header,
+                              value === SKIP_VALUE ? null : value,
+                            )
+                          }
+                        >
+                          <SelectTrigger
+                            className="h-7 text-xs"
+                            aria-label={`Column for ${header}`}
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={SKIP_VALUE}>
+                              Don&apos;t import
+                            </SelectItem>
+                            {columns.map((column) => (
+                              <SelectItem key={column.id} value={column.id}>
+                                {columnLabels.get(column.id)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {dataRecords
+                    .slice(0, PREVIEW_ROW_COUNT)
+                    .map(({ fields, lineNumber }) => (
+                      <tr key={lineNumber} className="border-b last:border-0">
+                        {headers.map((_, index) => (
+                          <td
+                            key={index}
+                            className={`max-w-[200px] truncate p-1.5 ${
+                              errorCells.has(`${lineNumber}:${mapping[index]}`)
+                                ? "bg-destructive/10 text-destructive"
+                                : mapping[index]
+                                  ? ""
+                                  : "text-muted-foreground"
+                            }`}
+                          >
+                            {fields[index]}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+              <ScrollBar orientation="horizontal" />
+            </ScrollArea>
+          )}
+
+          {result.errors.length > 0 && (
+            <div className="space-y-1 text-xs">
+              <p className="font-medium text-destructive">
+                {result.invalidRowNumbers.length} row
+                {result.invalidRowNumbers.length === 1 ? "" : "s"} with invalid
+                values will be skipped
+              </p>
+              <ul className="max-h-[120px] space-y-0.5 overflow-y-auto text-muted-foreground">
+                {result.errors
+                  .slice(0, LISTED_ERROR_COUNT)
+                  .map((error, index) => (
+                    <li key={index}>
+                      Line {error.rowNumber}, {columnLabels.get(error.columnId)}
+                      : {error.message}
+                    </li>
+                  ))}
+                {result.errors.length > LISTED_ERROR_COUNT && (
+                  <li>and {result.errors.length - LISTED_ERROR_COUNT} more</li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isMapped || !result.rows.length}>
+              Import {result.rows.length} row
+              {result.rows.length === 1 ? "" : "s"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,275 @@
+/**
+ * Pivot panel of the customization dialog. Turns pivot mode on and off and picks
+ * the row group columns, the pivot columns whose values become column groups,
+ * and the value columns with their aggregations.
+ */
+
+import * as React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Plus, X } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ColumnDataType,
+  PivotState,
+  PivotValue,
+} from "@/components/data-table/types";
+import { getAggregations } from "@/components/data-table/utils/aggregationRegistry";
+
+interface PivotColumn {
+  id: string;
+  label: string;
+  // Limits the aggregations offered for the column
+  dataType?: ColumnDataType;
+  // Weighted aggregations are offered for columns with a weight column only
+  weightColumn?: string;
+}
+
+interface AddColumnSelectProps {
+  columns: PivotColumn[];
+  onAdd: (columnId: string) => void;
+}
+
+// Select that adds a column to one of the pivot fields
+const AddColumnSelect = ({ columns, onAdd }: AddColumnSelectProps) => {
+  if (columns.length === 0) return null;
+
+  return (
+    <Select value="" onValueChange={onAdd}>
+      <SelectTrigger className="h-7 w-[150px] text-xs">
+        <div className="flex items-center gap-2">
+          <Plus className="h-3.5 w-3.5" />
+          <SelectValue placeholder="Add column..." />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        {columns.map((column) => (
+          <SelectItem key={column.id} value={column.id}>
+            {column.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+interface ColumnChipProps {
+  label: string;
+  onRemove: () => void;
+}
+
+const ColumnChip = ({ label, onRemove }: ColumnChipProps) => (
+  <div className="flex items-center gap-1 bg-accent text-accent-foreground rounded-md px-2 py-1">
+    <span className="text-sm">{label}</span>
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-4 w-4 p-0 ml-1 hover:bg-muted"
+      onClick={onRemove}
+    >
+      <X className="h-3 w-3" />
+    </Button>
+  </div>
+);
+
+interface PivotPanelProps {
+  // Columns to group rows by and to pivot on
+  groupableColumns: PivotColumn[];
+  // Columns that can be aggregated into the cells
+  valueColumns: PivotColumn[];
+  pivot: PivotState;
+  onPivotChange: (pivot: PivotState) => void;
+}
+
+export function PivotPanel({
+  groupableColumns,
+  valueColumns,
+  pivot,
+  onPivotChange,
+}: PivotPanelProps) {
+  // Local state to ensure immediate UI updates
+  const [localPivot, setLocalPivot] = React.useState<PivotState>(pivot);
+
+  // Keep local state in sync with props
+  React.useEffect(() => {
+    setLocalPivot(pivot);
+  }, [pivot]);
+
+  const updatePivot = (changes: Partial<PivotState>) => {
+    const newPivot = { ...localPivot, ...changes };
+    setLocalPivot(newPivot);
+    onPivotChange(newPivot);
+  };
+
+  const getLabel = (columnId: string) =>
+    [...groupableColumns, ...valueColumns].find(
+      (column) => column.id === columnId,
+    )?.label ?? columnId;
+
+  // A column either groups the rows or pivots, not both
+  const unusedGroupableColumns = groupableColumns.filter(
+    (column) =>
+      !localPivot.rows.includes(column.id) &&
+      !localPivot.columns.includes(column.id),
+  );
+
+  // Registered aggregations that apply to the values of a column
+  const getValueAggregations = (columnId: string) => {
+    const column = valueColumns.find(({ id }) => id === columnId);
+    return getAggregations(column?.dataType).filter(
+      (definition) => !definition.weighted || column?.weightColumn,
+    );
+  };
+
+  const handleAggregationChange = (index: number, aggregationFn: string) => {
+    updatePivot({
+      values: localPivot.values.map((value, valueIndex) =>
+        valueIndex === index ? { ...value, aggregationFn } : value,
+      ),
+    });
+  };
+
+  const renderColumnField = (
+    title: string,
+    field: "rows" | "columns",
+    emptyLabel: string,
+  ) => (
+    <div className="space-y-2">
+      <span className="text-sm font-medium">{title}</span>
+      <div className="flex flex-wrap items-center gap-2">
+        {localPivot[field].length > 0 ? (
+          localPivot[field].map((columnId) => (
+            <ColumnChip
+              key={columnId}
+              label={getLabel(columnId)}
+              onRemove={() =>
+                updatePivot({
+                  [field]: localPivot[field].filter((id) => id !== columnId),
+                })
+              }
+            />
+          ))
+        ) : (
+          <Badge variant="outline" className="text-muted-foreground">
+            {emptyLabel}
+          </Badge>
+        )}
+        <AddColumnSelect
+          columns={unusedGroupableColumns}
+          onAdd={(columnId) =>
+            updatePivot({ [field]: [...localPivot[field], columnId] })
+          }
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="pivot-mode"
+          checked={localPivot.enabled}
+          onCheckedChange={(enabled) => updatePivot({ enabled })}
+        />
+        <Label htmlFor="pivot-mode" className="text-sm font-medium">
+          Pivot mode
+        </Label>
+      </div>
+
+      {renderColumnField("Row groups:", "rows", "No row groups")}
+      {renderColumnField("Pivot columns:", "columns", "No pivot columns")}
+
+      <div className="space-y-2">
+        <span className="text-sm font-medium">Values:</span>
+        <div className="flex flex-col gap-2">
+          {localPivot.values.length > 0 ? (
+            localPivot.values.map((value: PivotValue, index) => (
+              <div
+                key={value.columnId}
+                className="flex items-center gap-2 bg-accent text-accent-foreground rounded-md px-2 py-1"
+              >
+                <span className="text-sm flex-1">
+                  {getLabel(value.columnId)}
+                </span>
+                <Select
+                  value={value.aggregationFn}
+                  onValueChange={(aggregationFn) =>
+                    handleAggregationChange(index, aggregationFn)
+                  }
+                >
+                  <SelectTrigger className="h-6 w-[160px] text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getValueAggregations(value.columnId).map((definition) => (
+                      <SelectItem key={definition.name} value={definition.name}>
+                        {definition.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-4 w-4 p-0 hover:bg-muted"
+                  onClick={() =>
+                    updatePivot({
+                      values: localPivot.values.filter(
+                        (_, valueIndex) => valueIndex !== index,
+                      ),
+                    })
+                  }
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))
+          ) : (
+            <div>
+              <Badge variant="outline" className="text-muted-foreground">
+                No values
+              </Badge>
+            </div>
+          )}
+        </div>
+        <AddColumnSelect
+          columns={valueColumns.filter(
+            (column) =>
+              !localPivot.values.some((value) => value.columnId === column.id),
+          )}
+          onAdd={(columnId) => {
+            // Sum numbers and count other values
+            const aggregations = getValueAggregations(columnId);
+            const aggregationFn = aggregations.some(
+              (definition) => definition.name === "sum",
+            )
+              ? "sum"
+              : (aggregations[0]?.name ?? "count");
+            updatePivot({
+              values: [...localPivot.values, { columnId, aggregationFn }],
+            });
+          }}
+        />
+      </div>
+
+      <div className="pt-4 text-xs text-muted-foreground">
+        <p>
+          The pivot is shown once it has at least one row group and one value
+        </p>
+        <p>
+          Each value of the pivot columns becomes a column group, followed by
+          subtotal and total columns
+        </p>
+      </div>
+    </div>
+  );
+}
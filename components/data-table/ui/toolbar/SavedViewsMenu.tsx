@@ -0,0 +1,212 @@
+/**
+ * Saved views menu for the data table toolbar. Lists the named views of the table
+ * and lets users switch between them, save the current layout as a new view,
+ * overwrite, rename or delete existing views.
+ */
+
+import * as React from "react";
+import { Table as ReactTable } from "@tanstack/react-table";
+import {
+  Bookmark,
+  Check,
+  ChevronDown,
+  Pencil,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useSavedViews } from "@/components/data-table/hooks/useSavedViews";
+import { SavedViewStorage } from "@/components/data-table/utils/savedViews";
+
+interface SavedViewsMenuProps<TData> {
+  table: ReactTable<TData>;
+  tableId: string;
+  storage?: SavedViewStorage;
+}
+
+// Name prompt used both for saving a new view and renaming an existing one
+type NameDialogState =
+  | { mode: "save" }
+  | { mode: "rename"; viewId: string; currentName: string }
+  | null;
+
+export function SavedViewsMenu<TData>({
+  table,
+  tableId,
+  storage,
+}: SavedViewsMenuProps<TData>) {
+  const {
+    views,
+    activeViewId,
+    error,
+    saveView,
+    updateView,
+    renameView,
+    deleteView,
+    applyView,
+  } = useSavedViews({ table, tableId, storage });
+
+  const [nameDialog, setNameDialog] = React.useState<NameDialogState>(null);
+  const [nameValue, setNameValue] = React.useState("");
+
+  const activeView = views.find((view) => view.id === activeViewId);
+
+  const openNameDialog = (state: NonNullable<NameDialogState>) => {
+    setNameValue(state.mode === "rename" ? state.currentName : "");
+    setNameDialog(state);
+  };
+
+  const handleNameSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = nameValue.trim();
+    if (!name || !nameDialog) return;
+
+    if (nameDialog.mode === "save") {
+      saveView(name);
+    } else {
+      renameView(nameDialog.viewId, name);
+    }
+    setNameDialog(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="ml-2 gap-1.5">
+            <Bookmark className="h-4 w-4" />
+            <span className="max-w-[140px] truncate">
+              {activeView ? activeView.name : "Views"}
+            </span>
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+
+        <DropdownMenuContent align="end" className="w-[260px]">
+          <DropdownMenuLabel className="text-xs font-medium text-muted-foreground">
+            Saved views
+          </DropdownMenuLabel>
+          {error && (
+            <div role="status" className="px-2 py-1.5 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+          {views.length === 0 && !error && (
+            <div className="px-2 py-1.5 text-sm text-muted-foreground">
+              No saved views yet
+            </div>
+          )}
+          {views.map((view) => (
+            <DropdownMenuItem
+              key={view.id}
+              onClick={() => applyView(view.id)}
+              className="group gap-1.5"
+            >
+              <Check
+                className={`h-3.5 w-3.5 ${
+                  view.id === activeViewId ? "opacity-100" : "opacity-0"
+                }`}
+              />
+              <span className="flex-1 truncate">{view.name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  openNameDialog({
+                    mode: "rename",
+                    viewId: view.id,
+                    currentName: view.name,
+                  });
+                }}
+              >
+                <Pencil className="h-3.5 w-3.5" />
+                <span className="sr-only">Rename view</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteView(view.id);
+                }}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                <span className="sr-only">Delete view</span>
+              </Button>
+            </DropdownMenuItem>
+          ))}
+
+          <DropdownMenuSeparator />
+          {activeView && (
+            <DropdownMenuItem onClick={() => updateView(activeView.id)}>
+              <Save className="mr-1.5 h-3.5 w-3.5 text-muted-foreground/70" />
+              <span className="truncate">Update “{activeView.name}”</span>
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => openNameDialog({ mode: "save" })}>
+            <Plus className="mr-1.5 h-3.5 w-3.5 text-muted-foreground/70" />
+            Save current view...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={nameDialog !== null}
+        onOpenChange={(open) => !open && setNameDialog(null)}
+      >
+        <DialogContent className="sm:max-w-[400px]">
+          <form onSubmit={handleNameSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>
+                {nameDialog?.mode === "rename" ? "Rename view" : "Save view"}
+              </DialogTitle>
+              <DialogDescription>
+                Views remember grouping, column order, visibility, widths,
+                pinning, filters, sorting and aggregations.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              autoFocus
+              placeholder="View name"
+              value={nameValue}
+              onChange={(e) => setNameValue(e.target.value)}
+            />
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setNameDialog(null)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!nameValue.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
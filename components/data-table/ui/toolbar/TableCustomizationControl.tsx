@@ -1,12 +1,13 @@
 /**
  * Table customization control component that provides a unified interface for
- * managing table features like column visibility, ordering, and grouping.
+ * managing table features like column visibility, ordering, sorting, grouping,
+ * the pivot table and conditional formatting.
  * Implements a popover menu with tabs for different customization options.
  */
 import * as React from "react";
 import { Table } from "@tanstack/react-table";
 import { Button } from "@/components/ui/button";
-import { Layers, Eye, Move } from "lucide-react";
+import { Layers, Eye, Move, ArrowUpDown, Table2, Palette } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -18,6 +19,23 @@ import { GroupingPanel } from "./ColumnGroupingPanel";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ColumnVisibilityPanel } from "./ColumnVisibilityPanel";
 import { ColumnOrderingPanel } from "./ColumnOrderingPanel";
+import { SortingPanel } from "./ColumnSortingPanel";
+import { PivotPanel } from "./PivotPanel";
+import { ConditionalFormatPanel } from "./ConditionalFormatPanel";
+import { SELECTION_COLUMN_ID } from "@/components/data-table/ui/row/SelectionColumn";
+import { DETAIL_PANEL_COLUMN_ID } from "@/components/data-table/ui/row/DetailPanelColumn";
+import {
+  ConditionalFormatRule,
+  PivotState,
+} from "@/components/data-table/types";
+import { isPivotColumnId } from "@/components/data-table/utils/pivot";
+
+// Full class names so that Tailwind picks them up
+const TAB_GRID_COLUMNS: Record<number, string> = {
+  4: "grid-cols-4",
+  5: "grid-cols-5",
+  6: "grid-cols-6",
+};
 
 // Simple memoized button component
 const CustomizationButton = React.memo(function CustomizationButton({
@@ -45,6 +63,12 @@ interface TableCustomizationControlProps<T> {
   groupableColumnObjects: { id: string; label: string }[];
   isDialogOpen: boolean;
   setIsDialogOpen: (open: boolean) => void;
+  // The Pivot tab is shown when the table supports pivoting
+  pivot?: PivotState;
+  onPivotChange?: (pivot: PivotState) => void;
+  // The Format tab is shown when conditional formats can be edited
+  conditionalFormats?: ConditionalFormatRule[];
+  onConditionalFormatsChange?: (rules: ConditionalFormatRule[]) => void;
 }
 
 // Comprehensive table customization component
@@ -53,6 +77,10 @@ export function TableCustomizationControl<T>({
   groupableColumnObjects,
   isDialogOpen,
   setIsDialogOpen,
+  pivot,
+  onPivotChange,
+  conditionalFormats,
+  onConditionalFormatsChange,
 }: TableCustomizationControlProps<T>) {
   const [activeTab, setActiveTab] = React.useState("grouping");
 
@@ -63,28 +91,75 @@ export function TableCustomizationControl<T>({
   const columnOrder = table.getState().columnOrder;
   const setColumnOrder = table.setColumnOrder;
 
+  const columnPinning = table.getState().columnPinning;
+  const setColumnPinning = table.setColumnPinning;
+
   const columnVisibility = table.getState().columnVisibility;
   const setColumnVisibility = table.setColumnVisibility;
 
+  const sorting = table.getState().sorting;
+  const setSorting = table.setSorting;
+
   // All non-grouped columns for ordering panel
   const orderableColumns = React.useMemo(() => {
     return table
       .getAllLeafColumns()
-      .filter((column) => !grouping.includes(column.id))
+      .filter(
+        (column) =>
+          !grouping.includes(column.id) &&
+          column.id !== SELECTION_COLUMN_ID &&
+          column.id !== DETAIL_PANEL_COLUMN_ID &&
+          !isPivotColumnId(column.id),
+      )
       .map((column) => ({
         id: column.id,
         label: column.columnDef.header?.toString() || column.id,
       }));
   }, [table, grouping]);
 
+  // All sortable columns for sorting panel
+  const sortableColumns = React.useMemo(() => {
+    return table
+      .getAllLeafColumns()
+      .filter((column) => column.getCanSort())
+      .map((column) => ({
+        id: column.id,
+        label: column.columnDef.header?.toString() || column.id,
+      }));
+  }, [table]);
+
   // All columns for visibility panel
   const allColumns = React.useMemo(() => {
-    return table.getAllLeafColumns().map((column) => ({
-      id: column.id,
-      label: column.columnDef.header?.toString() || column.id,
-    }));
+    return table
+      .getAllLeafColumns()
+      .filter((column) => column.getCanHide())
+      .map((column) => ({
+        id: column.id,
+        label: column.columnDef.header?.toString() || column.id,
+      }));
   }, [table]);
 
+  // Columns with values that can be aggregated into the pivot cells or formatted,
+  // with the weight column chosen in their column menu or declared
+  const aggregationWeights = table.options.meta?.aggregationWeights;
+  const valueColumns = React.useMemo(() => {
+    return table
+      .getAllLeafColumns()
+      .filter((column) => column.accessorFn && !isPivotColumnId(column.id))
+      .map((column) => ({
+        id: column.id,
+        label: column.columnDef.header?.toString() || column.id,
+        dataType: column.columnDef.meta?.dataType,
+        weightColumn:
+          aggregationWeights?.[column.id] ??
+          column.columnDef.meta?.weightColumn,
+      }));
+  }, [table, aggregationWeights]);
+
+  const canPivot = Boolean(pivot && onPivotChange);
+  const canFormat = Boolean(conditionalFormats && onConditionalFormatsChange);
+  const tabCount = 4 + Number(canPivot) + Number(canFormat);
+
   // Handle the button click to open the dialog
   const handleOpenDialog = React.useCallback(() => {
     setIsDialogOpen(true);
@@ -95,21 +170,27 @@ export function TableCustomizationControl<T>({
       <CustomizationButton onClick={handleOpenDialog} />
 
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent
+          className={canFormat ? "sm:max-w-[680px]" : "sm:max-w-[600px]"}
+        >
           <DialogHeader>
             <DialogTitle>Column Customization</DialogTitle>
             <DialogDescription>
-              Customize how your column data is displayed by grouping,
+              Customize how your column data is displayed by grouping, sorting,
               reordering, or hiding.
             </DialogDescription>
           </DialogHeader>
 
           <Tabs value={activeTab} onValueChange={setActiveTab}>
-            <TabsList className="grid grid-cols-3 mb-4">
+            <TabsList className={`grid ${TAB_GRID_COLUMNS[tabCount]} mb-4`}>
               <TabsTrigger value="grouping">
                 <Layers className="h-4 w-4 mr-2" />
                 Grouping
               </TabsTrigger>
+              <TabsTrigger value="sorting">
+                <ArrowUpDown className="h-4 w-4 mr-2" />
+                Sort
+              </TabsTrigger>
               <TabsTrigger value="visibility">
                 <Eye className="h-4 w-4 mr-2" />
                 Visibility
@@ -118,6 +199,18 @@ export function TableCustomizationControl<T>({
                 <Move className="h-4 w-4 mr-2" />
                 Ordering
               </TabsTrigger>
+              {canPivot && (
+                <TabsTrigger value="pivot">
+                  <Table2 className="h-4 w-4 mr-2" />
+                  Pivot
+                </TabsTrigger>
+              )}
+              {canFormat && (
+                <TabsTrigger value="format">
+                  <Palette className="h-4 w-4 mr-2" />
+                  Format
+                </TabsTrigger>
+              )}
             </TabsList>
 
             <TabsContent value="grouping">
@@ -128,6 +221,14 @@ export function TableCustomizationControl<T>({
               />
             </TabsContent>
 
+            <TabsContent value="sorting">
+              <SortingPanel
+                availableColumns={sortableColumns}
+                sorting={sorting}
+                onSortingChange={setSorting}
+              />
+            </TabsContent>
+
             <TabsContent value="visibility">
               <ColumnVisibilityPanel
                 columns={allColumns}
@@ -141,8 +242,31 @@ export function TableCustomizationControl<T>({
                 columns={orderableColumns}
                 columnOrder={columnOrder}
                 onColumnOrderChange={setColumnOrder}
+                columnPinning={columnPinning}
+                onColumnPinningChange={setColumnPinning}
               />
             </TabsContent>
+
+            {pivot && onPivotChange && (
+              <TabsContent value="pivot">
+                <PivotPanel
+                  groupableColumns={groupableColumnObjects}
+                  valueColumns={valueColumns}
+                  pivot={pivot}
+                  onPivotChange={onPivotChange}
+                />
+              </TabsContent>
+            )}
+
+            {conditionalFormats && onConditionalFormatsChange && (
+              <TabsContent value="format">
+                <ConditionalFormatPanel
+                  columns={valueColumns}
+                  conditionalFormats={conditionalFormats}
+                  onConditionalFormatsChange={onConditionalFormatsChange}
+                />
+              </TabsContent>
+            )}
           </Tabs>
         </DialogContent>
       </Dialog>
@@ -6,19 +6,33 @@
 
 import * as React from "react";
 import { Table as ReactTable } from "@tanstack/react-table";
-import { ColumnFilter } from "@/components/data-table/types";
+import {
+  ColumnFilter,
+  ConditionalFormatRule,
+  PivotState,
+  SavedViewsOptions,
+} from "@/components/data-table/types";
 import { GlobalFilter } from "@/components/data-table/ui/toolbar/GlobalFilter";
 import { Button } from "@/components/ui/button";
-import { Download, ChevronDown } from "lucide-react";
+import { Download, ChevronDown, Upload } from "lucide-react";
 import {
-  tableToCSV,
-  downloadCSV,
+  DEFAULT_EXPORT_OPTIONS,
+  ExportFormat,
+  ExportOptions,
+  exportTable,
 } from "@/components/data-table/utils/exportUtils";
+import {
+  EXPORT_FORMATS,
+  ExportDialog,
+} from "@/components/data-table/ui/toolbar/ExportDialog";
+import { ImportDialog } from "@/components/data-table/ui/toolbar/ImportDialog";
 import { TableCustomizationControl } from "@/components/data-table/ui/toolbar/TableCustomizationControl";
+import { SavedViewsMenu } from "@/components/data-table/ui/toolbar/SavedViewsMenu";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
@@ -32,6 +46,13 @@ interface DataTableToolbarProps<TData> {
   isCustomizationDialogOpen?: boolean;
   setIsCustomizationDialogOpen?: (open: boolean) => void;
   enableCustomization?: boolean;
+  savedViews?: SavedViewsOptions;
+  // Passed explicitly so that the memoized toolbar rerenders on pivot changes
+  pivot?: PivotState;
+  onPivotChange?: (pivot: PivotState) => void;
+  conditionalFormats?: ConditionalFormatRule[];
+  onConditionalFormatsChange?: (rules: ConditionalFormatRule[]) => void;
+  onImport?: (rows: TData[]) => void;
 }
 
 // Memoized toolbar component that handles filtering, grouping, and other table customizations
@@ -43,13 +64,29 @@ export const DataTableToolbar = React.memo(function DataTableToolbar<TData>({
   isCustomizationDialogOpen = false,
   setIsCustomizationDialogOpen,
   enableCustomization = false,
+  savedViews,
+  pivot,
+  onPivotChange,
+  conditionalFormats,
+  onConditionalFormatsChange,
+  onImport,
 }: DataTableToolbarProps<TData>) {
-  // Function to handle CSV export
-  const handleExportCSV = React.useCallback(() => {
-    const csvData = tableToCSV(table);
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    downloadCSV(csvData, `table-export-${timestamp}.csv`);
-  }, [table]);
+  // Quick exports reuse the settings last used in the export dialog
+  const [exportFormat, setExportFormat] = React.useState<ExportFormat>("csv");
+  const [exportOptions, setExportOptions] = React.useState<ExportOptions>(
+    DEFAULT_EXPORT_OPTIONS,
+  );
+  const [isExportDialogOpen, setIsExportDialogOpen] = React.useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = React.useState(false);
+
+  const handleExport = React.useCallback(
+    (format: ExportFormat, options: ExportOptions = exportOptions) => {
+      setExportFormat(format);
+      setExportOptions(options);
+      exportTable(table, format, options);
+    },
+    [table, exportOptions],
+  );
 
   return (
     <div className="flex items-center justify-between">
@@ -70,10 +107,44 @@ export const DataTableToolbar = React.memo(function DataTableToolbar<TData>({
               groupableColumnObjects={groupableColumnObjects}
               isDialogOpen={isCustomizationDialogOpen}
               setIsDialogOpen={setIsCustomizationDialogOpen}
+              pivot={pivot}
+              onPivotChange={onPivotChange}
+              conditionalFormats={conditionalFormats}
+              onConditionalFormatsChange={onConditionalFormatsChange}
             />
           )}
         </div>
 
+        {/* Saved Views Menu */}
+        {savedViews && (
+          <SavedViewsMenu
+            table={table}
+            tableId={savedViews.tableId}
+            storage={savedViews.storage}
+          />
+        )}
+
+        {/* Import Button */}
+        {onImport && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-2"
+              onClick={() => setIsImportDialogOpen(true)}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <ImportDialog
+              table={table}
+              open={isImportDialogOpen}
+              onOpenChange={setIsImportDialogOpen}
+              onImport={onImport}
+            />
+          </>
+        )}
+
         {/* Export Dropdown Menu */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -85,10 +156,29 @@ export const DataTableToolbar = React.memo(function DataTableToolbar<TData>({
           </DropdownMenuTrigger>
 
           <DropdownMenuContent align="end">
-            <DropdownMenuItem onClick={handleExportCSV}>CSV</DropdownMenuItem>
-            {/* Additional export options can be added here in the future */}
+            {EXPORT_FORMATS.map((exportFormat) => (
+              <DropdownMenuItem
+                key={exportFormat.value}
+                onClick={() => handleExport(exportFormat.value)}
+              >
+                {exportFormat.label}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setIsExportDialogOpen(true)}>
+              Export options...
+            </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+
+        <ExportDialog
+          table={table}
+          open={isExportDialogOpen}
+          onOpenChange={setIsExportDialogOpen}
+          format={exportFormat}
+          options={exportOptions}
+          onExport={handleExport}
+        />
       </div>
     </div>
   );
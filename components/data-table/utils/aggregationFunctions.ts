@@ -1,17 +1,33 @@
 /**
  * Collection of aggregation functions for grouped data in the table.
  * Provides implementations for common aggregations like sum, average, count,
- * min/max, and custom aggregations for specific data types.
+ * min/max, and custom aggregations for specific data types, including the
+ * statistical and exposure aggregations used by portfolio tables.
  */
 
 import { Row } from "@tanstack/react-table";
 
+export interface AggregationOptions {
+  // Column whose values weigh the values of weighted aggregations
+  weightColumnId?: string;
+}
+
 export type AggregationFunction<TData = unknown> = (
   columnId: string,
   leafRows: Row<TData>[],
   childRows?: Row<TData>[],
+  options?: AggregationOptions,
 ) => string | number | null | number[];
 
+// Numeric values of a column, skipping empty and non-numeric cells
+const getNumericValues = <TData>(columnId: string, rows: Row<TData>[]) =>
+  rows
+    .map((row) => row.getValue(columnId))
+    .filter(
+      (value): value is number =>
+        typeof value === "number" && Number.isFinite(value),
+    );
+
 // First value aggregation - returns the first value in the list
 export const firstAggregation: AggregationFunction = (columnId, leafRows) => {
   if (!leafRows.length) return null;
@@ -62,3 +78,100 @@ export const sparklineAggregation: AggregationFunction = (
     (val): val is number => val !== null && val !== undefined,
   );
 };
+
+// Weighted average - averages the values weighted by the values of another
+// column, e.g. the yield of a portfolio weighted by market value
+export const weightedMeanAggregation: AggregationFunction = (
+  columnId,
+  leafRows,
+  _childRows,
+  options,
+) => {
+  const weightColumnId = options?.weightColumnId;
+  if (!weightColumnId) return null;
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  leafRows.forEach((row) => {
+    const value = row.getValue(columnId);
+    const weight = row.getValue(weightColumnId);
+    if (
+      typeof value === "number" &&
+      Number.isFinite(value) &&
+      typeof weight === "number" &&
+      Number.isFinite(weight)
+    ) {
+      weightedSum += value * weight;
+      totalWeight += weight;
+    }
+  });
+
+  return totalWeight !== 0 ? weightedSum / totalWeight : null;
+};
+
+// Variance aggregation - sample variance of the numeric values
+export const varianceAggregation: AggregationFunction = (
+  columnId,
+  leafRows,
+) => {
+  const values = getNumericValues(columnId, leafRows);
+  if (values.length < 2) return null;
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return (
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+    (values.length - 1)
+  );
+};
+
+// Standard deviation aggregation - sample standard deviation of the values
+export const standardDeviationAggregation: AggregationFunction = (
+  columnId,
+  leafRows,
+) => {
+  const variance = varianceAggregation(columnId, leafRows);
+  return typeof variance === "number" ? Math.sqrt(variance) : null;
+};
+
+/**
+ * Percentile aggregation - the value below which a percentage of the values
+ * fall, interpolating linearly between the closest ranks
+ */
+export function createPercentileAggregation(
+  percentile: number,
+): AggregationFunction {
+  return (columnId, leafRows) => {
+    const values = getNumericValues(columnId, leafRows).sort((a, b) => a - b);
+    if (!values.length) return null;
+
+    const rank = (percentile / 100) * (values.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return values[lower] + (values[upper] - values[lower]) * (rank - lower);
+  };
+}
+
+// Sum of absolute values - the gross exposure of a set of positions
+export const sumAbsAggregation: AggregationFunction = (columnId, leafRows) =>
+  getNumericValues(columnId, leafRows).reduce(
+    (sum, value) => sum + Math.abs(value),
+    0,
+  );
+
+// Long aggregation - sum of the positive values
+export const longAggregation: AggregationFunction = (columnId, leafRows) =>
+  getNumericValues(columnId, leafRows).reduce(
+    (sum, value) => (value > 0 ? sum + value : sum),
+    0,
+  );
+
+// Short aggregation - sum of the negative values
+export const shortAggregation: AggregationFunction = (columnId, leafRows) =>
+  getNumericValues(columnId, leafRows).reduce(
+    (sum, value) => (value < 0 ? sum + value : sum),
+    0,
+  );
+
+// Net aggregation - longs minus the size of the shorts
+export const netAggregation: AggregationFunction = (columnId, leafRows) =>
+  getNumericValues(columnId, leafRows).reduce((sum, value) => sum + value, 0);
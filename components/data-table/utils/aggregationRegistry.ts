@@ -0,0 +1,309 @@
+/**
+ * Registry of the aggregation functions available to columns by name. Each
+ * aggregation has a label and category for the column menu, the data types of
+ * the columns it applies to and optionally a default renderer for the aggregated
+ * cells of columns without their own aggregatedCell. The built-in aggregations
+ * are registered up front; apps register their own with registerAggregation.
+ */
+
+import {
+  Cell,
+  CellContext,
+  Column,
+  ColumnDefTemplate,
+  aggregationFns,
+} from "@tanstack/react-table";
+import { ColumnDataType } from "@/components/data-table/types";
+import {
+  AggregationFunction,
+  AggregationOptions,
+  createPercentileAggregation,
+  firstAggregation,
+  lastAggregation,
+  longAggregation,
+  netAggregation,
+  shortAggregation,
+  sparklineAggregation,
+  standardDeviationAggregation,
+  sumAbsAggregation,
+  varianceAggregation,
+  weightedMeanAggregation,
+} from "@/components/data-table/utils/aggregationFunctions";
+import {
+  createExtentRenderer,
+  createSparklineHistogramRenderer,
+  ExtentValue,
+} from "@/components/data-table/ui/cell-renderers";
+
+export type AggregatedCellTemplate = ColumnDefTemplate<
+  CellContext<unknown, unknown>
+>;
+
+export interface AggregationDefinition {
+  /** Name columns refer to through their aggregationFn */
+  name: string;
+  /** Label shown in the column menu */
+  label: string;
+  /** Heading the aggregation is listed under in the column menu */
+  category: string;
+  /** Data types of the columns it applies to; all columns when omitted */
+  valueTypes?: ColumnDataType[];
+  aggregationFn: AggregationFunction;
+  /** Weighs the values by another column, picked in the column menu */
+  weighted?: boolean;
+  /** Renders the aggregated cells of columns without their own aggregatedCell */
+  aggregatedCell?: AggregatedCellTemplate;
+}
+
+// TanStack's built-in functions, typed like the functions of this library
+const builtInFns = aggregationFns as unknown as Record<
+  keyof typeof aggregationFns,
+  AggregationFunction
+>;
+
+const sparklineRenderer = createSparklineHistogramRenderer();
+const extentRenderer = createExtentRenderer();
+
+// Counts are plain numbers whatever the format of the column values
+const renderCount = ({ getValue }: CellContext<unknown, unknown>) => {
+  const value = getValue();
+  return typeof value === "number" ? value.toLocaleString() : null;
+};
+
+const BUILT_IN_AGGREGATIONS: AggregationDefinition[] = [
+  {
+    name: "count",
+    label: "Count",
+    category: "Counting",
+    aggregationFn: builtInFns.count,
+    aggregatedCell: renderCount,
+  },
+  {
+    name: "uniqueCount",
+    label: "Unique Count",
+    category: "Counting",
+    aggregationFn: builtInFns.uniqueCount,
+    aggregatedCell: renderCount,
+  },
+  {
+    name: "min",
+    label: "Min",
+    category: "Statistical",
+    valueTypes: ["number", "date"],
+    aggregationFn: builtInFns.min,
+  },
+  {
+    name: "max",
+    label: "Max",
+    category: "Statistical",
+    valueTypes: ["number", "date"],
+    aggregationFn: builtInFns.max,
+  },
+  {
+    name: "mean",
+    label: "Average",
+    category: "Statistical",
+    valueTypes: ["number"],
+    aggregationFn: builtInFns.mean,
+  },
+  {
+    name: "median",
+    label: "Median",
+    category: "Statistical",
+    valueTypes: ["number"],
+    aggregationFn: builtInFns.median,
+  },
+  {
+    name: "weightedMean",
+    label: "Weighted Average",
+    category: "Statistical",
+    valueTypes: ["number"],
+    aggregationFn: weightedMeanAggregation,
+    weighted: true,
+  },
+  {
+    name: "variance",
+    label: "Variance",
+    category: "Distribution",
+    valueTypes: ["number"],
+    aggregationFn: varianceAggregation,
+  },
+  {
+    name: "stdDev",
+    label: "Standard Deviation",
+    category: "Distribution",
+    valueTypes: ["number"],
+    aggregationFn: standardDeviationAggregation,
+  },
+  ...[5, 25, 75, 95].map(
+    (percentile): AggregationDefinition => ({
+      name: `p${percentile}`,
+      label: `${percentile}th Percentile`,
+      category: "Distribution",
+      valueTypes: ["number"],
+      aggregationFn: createPercentileAggregation(percentile),
+    }),
+  ),
+  {
+    name: "first",
+    label: "First Value",
+    category: "Ordering",
+    aggregationFn: firstAggregation,
+  },
+  {
+    name: "last",
+    label: "Last Value",
+    category: "Ordering",
+    aggregationFn: lastAggregation,
+  },
+  {
+    name: "extent",
+    label: "Range",
+    category: "Ordering",
+    valueTypes: ["number", "date"],
+    aggregationFn: builtInFns.extent,
+    aggregatedCell: ({ cell, row, getValue }) =>
+      extentRenderer({
+        cell: cell as Cell<unknown, ExtentValue>,
+        row,
+        value: getValue() as ExtentValue,
+      }),
+  },
+  {
+    name: "sparkline",
+    label: "Histogram",
+    category: "Visualization",
+    valueTypes: ["number"],
+    aggregationFn: sparklineAggregation,
+    aggregatedCell: ({ cell, row, getValue }) =>
+      sparklineRenderer({
+        cell: cell as Cell<unknown, number[]>,
+        row,
+        value: getValue() as number[],
+      }),
+  },
+  {
+    name: "sum",
+    label: "Sum",
+    category: "Sums",
+    valueTypes: ["number"],
+    aggregationFn: builtInFns.sum,
+  },
+  {
+    name: "long",
+    label: "Long",
+    category: "Exposure",
+    valueTypes: ["number"],
+    aggregationFn: longAggregation,
+  },
+  {
+    name: "short",
+    label: "Short",
+    category: "Exposure",
+    valueTypes: ["number"],
+    aggregationFn: shortAggregation,
+  },
+  {
+    name: "net",
+    label: "Net",
+    category: "Exposure",
+    valueTypes: ["number"],
+    aggregationFn: netAggregation,
+  },
+  {
+    name: "sumAbs",
+    label: "Gross (Sum of Absolute Values)",
+    category: "Exposure",
+    valueTypes: ["number"],
+    aggregationFn: sumAbsAggregation,
+  },
+];
+
+const registry = new Map<string, AggregationDefinition>(
+  BUILT_IN_AGGREGATIONS.map((definition) => [definition.name, definition]),
+);
+
+// Functions by name for the table options, rebuilt when the registry changes so
+// that tables keep a stable object between renders
+let registeredAggregationFns: Record<string, AggregationFunction> | null = null;
+
+/**
+ * Register an aggregation, or replace the one registered under the same name.
+ * Register before the tables using it render.
+ */
+export function registerAggregation(definition: AggregationDefinition): void {
+  registry.set(definition.name, definition);
+  registeredAggregationFns = null;
+}
+
+export function unregisterAggregation(name: string): void {
+  registry.delete(name);
+  registeredAggregationFns = null;
+}
+
+export const getAggregation = (name: string) => registry.get(name);
+
+/**
+ * Whether an aggregation applies to the columns of a data type. Columns that
+ * don't declare a data type accept every aggregation.
+ */
+export const isAggregationCompatible = (
+  definition: AggregationDefinition,
+  dataType?: ColumnDataType,
+) =>
+  !dataType ||
+  !definition.valueTypes ||
+  definition.valueTypes.includes(dataType);
+
+/**
+ * Registered aggregations in registration order, limited to those compatible
+ * with a data type when one is given
+ */
+export const getAggregations = (dataType?: ColumnDataType) =>
+  Array.from(registry.values()).filter((definition) =>
+    isAggregationCompatible(definition, dataType),
+  );
+
+export function getAggregationFns(): Record<string, AggregationFunction> {
+  if (!registeredAggregationFns) {
+    registeredAggregationFns = Object.fromEntries(
+      Array.from(registry.values()).map((definition) => [
+        definition.name,
+        definition.aggregationFn,
+      ]),
+    );
+  }
+  return registeredAggregationFns;
+}
+
+/**
+ * Bind the functions of a table to the options of its columns, such as the
+ * weight column of weighted aggregations
+ */
+export function bindAggregationOptions(
+  aggregationFns: Record<string, AggregationFunction>,
+  getOptions: (columnId: string) => AggregationOptions,
+): Record<string, AggregationFunction> {
+  return Object.fromEntries(
+    Object.entries(aggregationFns).map(([name, aggregationFn]) => [
+      name,
+      (columnId, leafRows, childRows) =>
+        aggregationFn(columnId, leafRows, childRows, getOptions(columnId)),
+    ]),
+  );
+}
+
+/**
+ * Renderer of the aggregated cells of a column: its own aggregatedCell, else the
+ * default renderer of its aggregation
+ */
+export function getAggregatedCellTemplate<TData, TValue>(
+  column: Column<TData, TValue>,
+): ColumnDefTemplate<CellContext<TData, TValue>> | undefined {
+  const { aggregatedCell, aggregationFn } = column.columnDef;
+  if (aggregatedCell) return aggregatedCell;
+  if (typeof aggregationFn !== "string") return undefined;
+  return registry.get(aggregationFn)?.aggregatedCell as
+    | ColumnDefTemplate<CellContext<TData, TValue>>
+    | undefined;
+}
@@ -0,0 +1,91 @@
+/**
+ * Helpers for inline cell editing: resolving the editor configuration of a
+ * column, deciding which cells can be edited and writing edited values into
+ * copies of the row data.
+ */
+
+import { Column, ColumnDef, Row } from "@tanstack/react-table";
+import { CellEditorConfig } from "@/components/data-table/types";
+import { isRollUpColumn } from "@/components/data-table/utils/treeData";
+
+/**
+ * Normalized editor configuration of a column, or null when it isn't editable
+ */
+export function getCellEditorConfig<TData, TValue>(
+  columnDef: ColumnDef<TData, TValue>,
+): CellEditorConfig<TData> | null {
+  const editable = columnDef.meta?.editable;
+  if (!editable) return null;
+  return editable === true ? {} : editable;
+}
+
+const getAccessorKey = <TData, TValue>(
+  columnDef: ColumnDef<TData, TValue>,
+): string | undefined =>
+  "accessorKey" in columnDef && columnDef.accessorKey !== undefined
+    ? String(columnDef.accessorKey)
+    : undefined;
+
+/**
+ * Whether values of the column can be written back into row data, through its
+ * accessorKey or the setValue of its editor configuration
+ */
+export function canWriteCellValue<TData, TValue>(
+  columnDef: ColumnDef<TData, TValue>,
+): boolean {
+  return Boolean(
+    getCellEditorConfig(columnDef)?.setValue || getAccessorKey(columnDef),
+  );
+}
+
+/**
+ * Whether a cell can be edited. Group rows are never editable, and the column
+ * must be able to write the value back (accessorKey or setValue).
+ */
+export function isCellEditable<TData, TValue>(
+  row: Row<TData>,
+  column: Column<TData, TValue>,
+): boolean {
+  const config = getCellEditorConfig(column.columnDef);
+  if (!config || row.getIsGrouped()) return false;
+  // Parents of tree data show the roll-up of their children
+  if (row.subRows?.length && isRollUpColumn(column)) return false;
+  if (!canWriteCellValue(column.columnDef)) return false;
+  return config.isEditable?.(row.original) ?? true;
+}
+
+/**
+ * Return a copy of the row with the value of the column replaced. Dotted
+ * accessor keys are treated as nested paths, matching TanStack Table.
+ */
+export function writeCellValue<TData, TValue>(
+  original: TData,
+  columnDef: ColumnDef<TData, TValue>,
+  value: unknown,
+): TData {
+  const setValue = getCellEditorConfig(columnDef)?.setValue;
+  if (setValue) return setValue(original, value);
+
+  const accessorKey = getAccessorKey(columnDef);
+  if (!accessorKey) return original;
+
+  const setPath = (target: unknown, path: string[]): unknown => {
+    const [key, ...rest] = path;
+    const record = (target ?? {}) as Record<string, unknown>;
+    return {
+      ...record,
+      [key]: rest.length > 0 ? setPath(record[key], rest) : value,
+    };
+  };
+  return setPath(original, accessorKey.split(".")) as TData;
+}
+
+/**
+ * Compare an edited value with the current one; dates are compared by time
+ */
+export function isSameCellValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return Object.is(a, b);
+}
@@ -0,0 +1,248 @@
+/**
+ * Helpers for cell range selection: resolving the cells of a range, summarizing
+ * their numeric values and copying them to the clipboard as TSV and as an HTML
+ * table that spreadsheets paste with the formatting of the column renderers.
+ */
+
+import * as React from "react";
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+import { Cell, Row, flexRender } from "@tanstack/react-table";
+import { format } from "date-fns";
+import {
+  CellRange,
+  CellRangeStats,
+  GridCellPosition,
+} from "@/components/data-table/types";
+import { getAggregatedCellTemplate } from "@/components/data-table/utils/aggregationRegistry";
+import {
+  getCellExportText,
+  getCellExportValue,
+} from "@/components/data-table/utils/exportMeta";
+
+/**
+ * Inclusive row and column bounds of a range
+ */
+export function getRangeBounds(range: CellRange) {
+  return {
+    top: Math.min(range.anchor.rowIndex, range.focus.rowIndex),
+    bottom: Math.max(range.anchor.rowIndex, range.focus.rowIndex),
+    left: Math.min(range.anchor.columnIndex, range.focus.columnIndex),
+    right: Math.max(range.anchor.columnIndex, range.focus.columnIndex),
+  };
+}
+
+export function isPositionInRange(
+  range: CellRange,
+  position: GridCellPosition,
+): boolean {
+  const { top, bottom, left, right } = getRangeBounds(range);
+  return (
+    position.rowIndex >= top &&
+    position.rowIndex <= bottom &&
+    position.columnIndex >= left &&
+    position.columnIndex <= right
+  );
+}
+
+/**
+ * Cells of a range, by row, within the given rows and their visible cells
+ */
+export function getRangeCells<TData>(
+  rows: Row<TData>[],
+  range: CellRange,
+): Cell<TData, unknown>[][] {
+  const { top, bottom, left, right } = getRangeBounds(range);
+  return rows
+    .slice(top, bottom + 1)
+    .map((row) => row.getVisibleCells().slice(left, right + 1));
+}
+
+// Placeholder cells repeat the grouping value of their group row
+const getCellValue = <TData>(cell: Cell<TData, unknown>): unknown =>
+  cell.getIsPlaceholder() ? undefined : cell.getValue();
+
+/**
+ * Count, sum, average, min and max of the numeric cells of a range
+ */
+export function getRangeStats<TData>(
+  cells: Cell<TData, unknown>[][],
+): CellRangeStats {
+  const stats: CellRangeStats = {
+    cellCount: 0,
+    numericCount: 0,
+    sum: 0,
+    average: 0,
+    min: Infinity,
+    max: -Infinity,
+  };
+
+  cells.forEach((rowCells) =>
+    rowCells.forEach((cell) => {
+      stats.cellCount += 1;
+      const value = getCellValue(cell);
+      if (typeof value === "number" && Number.isFinite(value)) {
+        stats.numericCount += 1;
+        stats.sum += value;
+        stats.min = Math.min(stats.min, value);
+        stats.max = Math.max(stats.max, value);
+      }
+    }),
+  );
+
+  if (stats.numericCount === 0) {
+    return { ...stats, min: 0, max: 0 };
+  }
+  return { ...stats, average: stats.sum / stats.numericCount };
+}
+
+// Largest range whose displayed text is read back from the column renderers;
+// larger ranges are formatted by the formats of their columns
+const MAX_RENDERED_CELLS = 2_000;
+// Rows mounted at a time while reading back the displayed text
+const RENDER_CHUNK_ROWS = 100;
+
+// Table of cells rendered with their column renderers
+const renderCellsTable = <TData>(cells: Cell<TData, unknown>[][]) =>
+  React.createElement(
+    "table",
+    null,
+    React.createElement(
+      "tbody",
+      null,
+      cells.map((rowCells, rowIndex) =>
+        React.createElement(
+          "tr",
+          { key: rowIndex },
+          rowCells.map((cell) =>
+            React.createElement(
+              "td",
+              { key: cell.id },
+              cell.getIsPlaceholder()
+                ? null
+                : flexRender(
+                    (cell.getIsAggregated() &&
+                      getAggregatedCellTemplate(cell.column)) ||
+                      cell.column.columnDef.cell,
+                    cell.getContext(),
+                  ),
+            ),
+          ),
+        ),
+      ),
+    ),
+  );
+
+/**
+ * Text of the cells as displayed. Small ranges are rendered with their column
+ * renderers in a detached element, a chunk of rows at a time, and the text is
+ * read back; cells whose renderer shows no text (icons, charts) get an empty
+ * string. Larger ranges use the formats of their columns instead.
+ */
+function getFormattedCellTexts<TData>(
+  cells: Cell<TData, unknown>[][],
+): string[][] {
+  const cellCount = cells.reduce(
+    (count, rowCells) => count + rowCells.length,
+    0,
+  );
+  if (cellCount > MAX_RENDERED_CELLS) {
+    return cells.map((rowCells) => rowCells.map(getCellExportText));
+  }
+
+  const container = document.createElement("div");
+  const root = createRoot(container);
+  const texts: string[][] = [];
+  try {
+    for (let start = 0; start < cells.length; start += RENDER_CHUNK_ROWS) {
+      flushSync(() => {
+        root.render(
+          renderCellsTable(cells.slice(start, start + RENDER_CHUNK_ROWS)),
+        );
+      });
+      container
+        .querySelectorAll("tr")
+        .forEach((tr) =>
+          texts.push(
+            Array.from(tr.children).map(
+              (td) => td.textContent?.replace(/\s+/g, " ").trim() ?? "",
+            ),
+          ),
+        );
+    }
+  } finally {
+    root.unmount();
+  }
+  return texts;
+}
+
+// Raw value as text for TSV, falling back to the displayed text for objects
+const toPlainText = (value: unknown, formatted: string): string => {
+  if (value == null) return "";
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? "" : format(value, "yyyy-MM-dd");
+  }
+  if (typeof value === "object") return formatted;
+  return String(value);
+};
+
+// Quote TSV fields that contain tabs, newlines or quotes
+const escapeTSV = (text: string): string =>
+  /[\t\n\r"]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+const escapeHTML = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Copy cells to the clipboard as TSV with raw values (or the export values of
+ * their columns), plus an HTML table with the values as displayed by the column
+ * renderers when the browser supports it.
+ */
+export async function copyCellsToClipboard<TData>(
+  cells: Cell<TData, unknown>[][],
+): Promise<void> {
+  const formattedTexts = getFormattedCellTexts(cells);
+
+  const plainTexts = cells.map((rowCells, rowIndex) =>
+    rowCells.map((cell, cellIndex) =>
+      toPlainText(
+        getCellExportValue(cell),
+        formattedTexts[rowIndex]?.[cellIndex],
+      ),
+    ),
+  );
+
+  const tsv = plainTexts
+    .map((rowTexts) => rowTexts.map(escapeTSV).join("\t"))
+    .join("\n");
+
+  const html = `<table><tbody>${cells
+    .map(
+      (rowCells, rowIndex) =>
+        `<tr>${rowCells
+          .map((_, cellIndex) => {
+            // Keep the raw value for cells that render without text
+            const text =
+              formattedTexts[rowIndex]?.[cellIndex] ||
+              plainTexts[rowIndex][cellIndex];
+            return `<td>${escapeHTML(text)}</td>`;
+          })
+          .join("")}</tr>`,
+    )
+    .join("")}</tbody></table>`;
+
+  if (typeof ClipboardItem !== "undefined" && navigator.clipboard?.write) {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        "text/plain": new Blob([tsv], { type: "text/plain" }),
+        "text/html": new Blob([html], { type: "text/html" }),
+      }),
+    ]);
+  } else {
+    await navigator.clipboard.writeText(tsv);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Per-column aggregation state. Applies the aggregation function and weight
+ * column chosen for each column onto the column definitions, and provides the
+ * grouped row model that recomputes the aggregated values when they change.
+ */
+
+import {
+  ColumnDef,
+  RowModel,
+  Table,
+  getGroupedRowModel,
+} from "@tanstack/react-table";
+import { getColumnDefId } from "@/components/data-table/utils/pivot";
+
+/**
+ * Column definitions with the aggregation function and weight column chosen per
+ * column in place of the ones they declare
+ */
+export function applyColumnAggregations<TData, TValue>(
+  columns: ColumnDef<TData, TValue>[],
+  columnAggregations: Record<string, string>,
+  aggregationWeights: Record<string, string>,
+): ColumnDef<TData, TValue>[] {
+  if (
+    Object.keys(columnAggregations).length === 0 &&
+    Object.keys(aggregationWeights).length === 0
+  ) {
+    return columns;
+  }
+
+  return columns.map((columnDef) => {
+    if ("columns" in columnDef && columnDef.columns) {
+      return {
+        ...columnDef,
+        columns: applyColumnAggregations(
+          columnDef.columns,
+          columnAggregations,
+          aggregationWeights,
+        ),
+      };
+    }
+
+    const columnId = getColumnDefId(columnDef);
+    const aggregationFn = columnId ? columnAggregations[columnId] : undefined;
+    const weightColumn = columnId ? aggregationWeights[columnId] : undefined;
+    if (!aggregationFn && !weightColumn) return columnDef;
+
+    return {
+      ...columnDef,
+      ...(aggregationFn && {
+        aggregationFn: aggregationFn as ColumnDef<TData>["aggregationFn"],
+      }),
+      ...(weightColumn && {
+        meta: { ...columnDef.meta, weightColumn },
+      }),
+    };
+  });
+}
+
+/**
+ * Grouped row model that regroups the rows when the aggregations chosen per
+ * column change. TanStack Table caches aggregated values on the group rows, so
+ * they are only recomputed by a new grouped row model. Rows keep their ids, so
+ * expansion and scroll position are kept.
+ */
+export function getAggregatedGroupedRowModel<TData>(): (
+  table: Table<TData>,
+) => () => RowModel<TData> {
+  return (table) => {
+    let getBaseRowModel = getGroupedRowModel<TData>()(table);
+    let columnAggregations = table.options.meta?.columnAggregations;
+    let aggregationWeights = table.options.meta?.aggregationWeights;
+
+    return () => {
+      const meta = table.options.meta;
+      if (
+        meta?.columnAggregations !== columnAggregations ||
+        meta?.aggregationWeights !== aggregationWeights
+      ) {
+        columnAggregations = meta?.columnAggregations;
+        aggregationWeights = meta?.aggregationWeights;
+        getBaseRowModel = getGroupedRowModel<TData>()(table);
+      }
+      return getBaseRowModel();
+    };
+  };
+}
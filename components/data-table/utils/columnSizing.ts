@@ -0,0 +1,50 @@
+/**
+ * Helpers for sizing columns to their content. Widths are measured on the rows
+ * currently rendered by the virtualizer, so auto-fit only considers visible data.
+ */
+
+// Attribute set on every header and body cell with the id of its column
+const COLUMN_ID_ATTRIBUTE = "data-column-id";
+
+// Attribute marking the root element of a table, used to scope DOM queries
+export const TABLE_ROOT_ATTRIBUTE = "data-table-root";
+
+// Extra room so that fitted content isn't cut off by the ellipsis
+const AUTO_FIT_PADDING = 4;
+
+/**
+ * Measure the natural width of the widest rendered cell of a column, including
+ * its header. Cells are cloned into an off-screen container with shrink-to-fit
+ * sizing, which gives the width the content needs regardless of the current
+ * column width. Returns null when no cells of the column are rendered.
+ */
+export function measureColumnContentWidth(
+  tableRoot: HTMLElement,
+  columnId: string,
+): number | null {
+  const cells = tableRoot.querySelectorAll<HTMLElement>(
+    `[${COLUMN_ID_ATTRIBUTE}="${CSS.escape(columnId)}"]`,
+  );
+  if (cells.length === 0) return null;
+
+  // Measure inside the table root so the clones inherit its fonts and styles
+  const measureContainer = document.createElement("div");
+  measureContainer.style.cssText =
+    "position:absolute;top:0;left:0;visibility:hidden;pointer-events:none;";
+  tableRoot.appendChild(measureContainer);
+
+  let maxWidth = 0;
+  cells.forEach((cell) => {
+    const clone = cell.cloneNode(true) as HTMLElement;
+    clone.style.position = "absolute";
+    clone.style.width = "auto";
+    clone.style.flex = "none";
+    clone.style.whiteSpace = "nowrap";
+    clone.style.overflow = "visible";
+    measureContainer.appendChild(clone);
+    maxWidth = Math.max(maxWidth, clone.getBoundingClientRect().width);
+  });
+
+  tableRoot.removeChild(measureContainer);
+  return Math.ceil(maxWidth) + AUTO_FIT_PADDING;
+}
@@ -0,0 +1,49 @@
+/**
+ * Shared layout styles for header and body cells. Keeping both in one place is
+ * what keeps the separate header table aligned with the virtualized body rows,
+ * including the sticky offsets of pinned columns.
+ */
+
+import * as React from "react";
+import { Column } from "@tanstack/react-table";
+
+// Shadow drawn on the inner edge of the pinned column groups
+const LEFT_PINNED_SHADOW = "4px 0 4px -4px rgba(0, 0, 0, 0.25)";
+const RIGHT_PINNED_SHADOW = "-4px 0 4px -4px rgba(0, 0, 0, 0.25)";
+
+/**
+ * Width and, for pinned columns, sticky positioning of a cell. Unpinned columns
+ * grow proportionally to fill the available width; pinned columns keep their
+ * exact size so the sticky offsets of the following pinned columns stay correct.
+ */
+export function getColumnCellStyles<TData, TValue>(
+  column: Column<TData, TValue>,
+): React.CSSProperties {
+  const size = column.getSize();
+  const isPinned = column.getIsPinned();
+
+  const styles: React.CSSProperties = {
+    flex: isPinned ? `0 0 ${size}px` : `${size} 0 ${size}px`,
+    width: `${size}px`,
+  };
+
+  if (!isPinned) {
+    return styles;
+  }
+
+  return {
+    ...styles,
+    position: "sticky",
+    left: isPinned === "left" ? `${column.getStart("left")}px` : undefined,
+    right: isPinned === "right" ? `${column.getAfter("right")}px` : undefined,
+    zIndex: 1,
+    // Cover the cells scrolling underneath with the background of the row
+    backgroundColor: "inherit",
+    boxShadow:
+      isPinned === "left" && column.getIsLastColumn("left")
+        ? LEFT_PINNED_SHADOW
+        : isPinned === "right" && column.getIsFirstColumn("right")
+          ? RIGHT_PINNED_SHADOW
+          : undefined,
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * Conditional formatting engine. Evaluates the conditional format rules of the
+ * table against the numeric cell values, with ranges and rankings taken over the
+ * filtered rows. Leaf rows are compared with each other and the aggregated cells
+ * of group rows with the other groups of the same level.
+ */
+
+import * as React from "react";
+import { Row, Table, getMemoOptions, memo } from "@tanstack/react-table";
+import {
+  ConditionalFormatRule,
+  IconSetFormatRule,
+} from "@/components/data-table/types";
+
+export interface ConditionalFormatIcon {
+  iconSet: IconSetFormatRule["iconSet"];
+  // 0 for the low third of the range, 1 for the middle and 2 for the high third
+  level: 0 | 1 | 2;
+}
+
+export interface CellFormat {
+  style: React.CSSProperties;
+  icon?: ConditionalFormatIcon;
+}
+
+export type CellFormatter<TData> = (
+  row: Row<TData>,
+  columnId: string,
+) => CellFormat | null;
+
+// Range and ranking of the values of a column over comparable rows
+interface ValueStats {
+  min: number;
+  max: number;
+  // Sorted from highest to lowest
+  descending: number[];
+}
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// Group rows are compared per level, leaf rows all together
+const getRowBucket = <TData>(row: Row<TData>) =>
+  row.subRows?.length ? `group:${row.depth}` : "leaf";
+
+// Position of a value in the range, from 0 at the minimum to 1 at the maximum
+const getRangePosition = (value: number, { min, max }: ValueStats) =>
+  max > min ? (value - min) / (max - min) : 1;
+
+// Blend two CSS colors, from the first at 0 to the second at 1
+const mixColors = (from: string, to: string, position: number) =>
+  `color-mix(in srgb, ${to} ${Math.round(position * 100)}%, ${from})`;
+
+const matchesThreshold = (
+  value: number,
+  rule: Extract<ConditionalFormatRule, { type: "threshold" }>,
+) => {
+  switch (rule.operator) {
+    case ">":
+      return value > rule.value;
+    case ">=":
+      return value >= rule.value;
+    case "<":
+      return value < rule.value;
+    case "<=":
+      return value <= rule.value;
+    case "=":
+      return value === rule.value;
+    case "between":
+      return value >= rule.value && value <= (rule.value2 ?? rule.value);
+  }
+};
+
+const matchesRank = (
+  value: number,
+  rule: Extract<ConditionalFormatRule, { type: "topBottom" }>,
+  { descending }: ValueStats,
+) => {
+  const count = Math.min(Math.floor(rule.count), descending.length);
+  if (count <= 0) return false;
+  return rule.direction === "top"
+    ? value >= descending[count - 1]
+    : value <= descending[descending.length - count];
+};
+
+/**
+ * Apply a rule to the format of a cell. Later rules of a column override the
+ * colors of earlier ones.
+ */
+function applyRule(
+  format: CellFormat,
+  rule: ConditionalFormatRule,
+  value: number,
+  stats: ValueStats,
+): void {
+  switch (rule.type) {
+    case "threshold":
+      if (matchesThreshold(value, rule)) {
+        Object.assign(format.style, rule.style);
+      }
+      return;
+    case "topBottom":
+      if (matchesRank(value, rule, stats)) {
+        Object.assign(format.style, rule.style);
+      }
+      return;
+    case "colorScale": {
+      const position = getRangePosition(value, stats);
+      const [low, middle, high] = rule.colors;
+      format.style.backgroundColor =
+        high === undefined
+          ? mixColors(low, middle, position)
+          : position < 0.5
+            ? mixColors(low, middle, position * 2)
+            : mixColors(middle, high, (position - 0.5) * 2);
+      return;
+    }
+    case "dataBar": {
+      // Bars start at zero, or at the minimum when there are negative values
+      const start = Math.min(stats.min, 0);
+      const length =
+        stats.max > start ? ((value - start) / (stats.max - start)) * 100 : 100;
+      format.style.backgroundImage = `linear-gradient(to right, ${rule.color} ${length}%, transparent ${length}%)`;
+      return;
+    }
+    case "iconSet": {
+      const position = getRangePosition(value, stats);
+      format.icon = {
+        iconSet: rule.iconSet,
+        level: position >= 2 / 3 ? 2 : position >= 1 / 3 ? 1 : 0,
+      };
+      return;
+    }
+  }
+}
+
+/**
+ * Formatter of the cells of a set of rows
+ */
+export function createCellFormatter<TData>(
+  rows: Row<TData>[],
+  rules: ConditionalFormatRule[],
+): CellFormatter<TData> {
+  const rulesByColumn = new Map<string, ConditionalFormatRule[]>();
+  rules.forEach((rule) => {
+    rulesByColumn.set(rule.columnId, [
+      ...(rulesByColumn.get(rule.columnId) ?? []),
+      rule,
+    ]);
+  });
+
+  // Statistics are computed on first use, for the columns and levels on screen
+  const statsCache = new Map<string, ValueStats | null>();
+  const getStats = (columnId: string, bucket: string) => {
+    const key = `${bucket}:${columnId}`;
+    if (!statsCache.has(key)) {
+      const values = rows
+        .filter((row) => getRowBucket(row) === bucket)
+        .map((row) => row.getValue(columnId))
+        .filter(isNumber)
+        .sort((a, b) => b - a);
+      statsCache.set(
+        key,
+        values.length > 0
+          ? {
+              min: values[values.length - 1],
+              max: values[0],
+              descending: values,
+            }
+          : null,
+      );
+    }
+    return statsCache.get(key) ?? null;
+  };
+
+  return (row, columnId) => {
+    const columnRules = rulesByColumn.get(columnId);
+    if (!columnRules) return null;
+
+    const value = row.getValue(columnId);
+    if (!isNumber(value)) return null;
+
+    const stats = getStats(columnId, getRowBucket(row));
+    if (!stats) return null;
+
+    const format: CellFormat = { style: {} };
+    columnRules.forEach((rule) => applyRule(format, rule, value, stats));
+    return format;
+  };
+}
+
+// One memoized formatter per table, recomputed when the rows or rules change
+const tableFormatters = new WeakMap<object, () => CellFormatter<unknown>>();
+
+/**
+ * Formatter of the cells of a table, for the rules in its meta. Statistics cover
+ * the filtered rows, including those on other pages.
+ */
+export function getTableCellFormatter<TData>(
+  table: Table<TData>,
+): CellFormatter<TData> {
+  let getFormatter = tableFormatters.get(table);
+  if (!getFormatter) {
+    getFormatter = memo(
+      () => [
+        table.getGroupedRowModel(),
+        table.options.meta?.conditionalFormats,
+      ],
+      (rowModel, rules) => createCellFormatter(rowModel.flatRows, rules ?? []),
+      getMemoOptions(table.options, "debugTable", "getTableCellFormatter"),
+    ) as () => CellFormatter<unknown>;
+    tableFormatters.set(table, getFormatter);
+  }
+  return getFormatter() as CellFormatter<TData>;
+}
@@ -0,0 +1,174 @@
+/**
+ * Reference DataSource implementation that serves rows from an in-memory array.
+ * Mirrors what a server would do with a DataSourceQuery (filter, sort, cluster
+ * rows by the grouping columns and slice out the requested page) so that
+ * server-side mode can be developed and tested without a backend.
+ */
+
+import {
+  DataSource,
+  DataSourceQuery,
+  DataSourceResult,
+} from "@/components/data-table/types";
+
+export type DataSourceFilterFn = (
+  value: unknown,
+  filterValue: unknown,
+) => boolean;
+
+export interface InMemoryDataSourceOptions<TData> {
+  data: TData[];
+  /**
+   * Reads a column value from a row. Defaults to reading the property named
+   * after the column id.
+   */
+  getValue?: (row: TData, columnId: string) => unknown;
+  /**
+   * Per-column filter predicates. Columns without an entry use a default matcher:
+   * [min, max] tuples are treated as numeric ranges, strings as case-insensitive
+   * "contains" and anything else as strict equality.
+   */
+  filterFns?: Record<string, DataSourceFilterFn>;
+  /**
+   * Column ids searched by the global filter. Defaults to every own property of the row.
+   */
+  globalFilterColumns?: string[];
+  /**
+   * Artificial latency in milliseconds, useful to exercise loading states.
+   */
+  latency?: number;
+}
+
+const defaultGetValue = <TData>(row: TData, columnId: string): unknown =>
+  (row as Record<string, unknown>)[columnId];
+
+// Default column filter matching used when no filterFn is registered for a column
+const defaultFilterFn: DataSourceFilterFn = (value, filterValue) => {
+  if (Array.isArray(filterValue)) {
+    const [min, max] = filterValue as [number | undefined, number | undefined];
+    const numericValue = Number(value);
+    if (min !== undefined && numericValue < min) return false;
+    if (max !== undefined && numericValue > max) return false;
+    return true;
+  }
+
+  if (typeof filterValue === "string") {
+    return String(value ?? "")
+      .toLowerCase()
+      .includes(filterValue.toLowerCase());
+  }
+
+  return value === filterValue;
+};
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+
+  return String(a).localeCompare(String(b));
+}
+
+function waitFor(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DOMException("Request aborted", "AbortError"));
+      return;
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new DOMException("Request aborted", "AbortError"));
+    };
+    const timeoutId = setTimeout(() => {
+      // Don't keep the listener alive on signals of settled requests
+      signal.removeEventListener("abort", handleAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", handleAbort, { once: true });
+  });
+}
+
+/**
+ * Create a DataSource backed by an in-memory array.
+ */
+export function createInMemoryDataSource<TData>({
+  data,
+  getValue = defaultGetValue,
+  filterFns = {},
+  globalFilterColumns,
+  latency = 0,
+}: InMemoryDataSourceOptions<TData>): DataSource<TData> {
+  const runQuery = ({
+    sorting,
+    columnFilters,
+    globalFilter,
+    grouping,
+    pagination,
+  }: DataSourceQuery): DataSourceResult<TData> => {
+    const search = globalFilter.trim().toLowerCase();
+
+    const filteredRows = data.filter((row) => {
+      const matchesColumnFilters = columnFilters.every(({ id, value }) =>
+        (filterFns[id] ?? defaultFilterFn)(getValue(row, id), value),
+      );
+      if (!matchesColumnFilters) return false;
+      if (!search) return true;
+
+      const searchColumns =
+        globalFilterColumns ?? Object.keys(row as Record<string, unknown>);
+      return searchColumns.some((columnId) =>
+        String(getValue(row, columnId) ?? "")
+          .toLowerCase()
+          .includes(search),
+      );
+    });
+
+    // Grouping columns are sorted first so that rows of the same group are contiguous
+    const sortEntries = [
+      ...grouping.map((columnId) => ({
+        id: columnId,
+        desc: sorting.find((sort) => sort.id === columnId)?.desc ?? false,
+      })),
+      ...sorting.filter((sort) => !grouping.includes(sort.id)),
+    ];
+
+    const sortedRows =
+      sortEntries.length > 0
+        ? [...filteredRows].sort((rowA, rowB) => {
+            for (const { id, desc } of sortEntries) {
+              const result = compareValues(
+                getValue(rowA, id),
+                getValue(rowB, id),
+              );
+              if (result !== 0) return desc ? -result : result;
+            }
+            return 0;
+          })
+        : filteredRows;
+
+    const start = pagination.pageIndex * pagination.pageSize;
+
+    return {
+      rows: sortedRows.slice(start, start + pagination.pageSize),
+      rowCount: sortedRows.length,
+    };
+  };
+
+  return {
+    fetchRows: async (query, { signal }) => {
+      if (latency > 0) {
+        await waitFor(latency, signal);
+      }
+      return runQuery(query);
+    },
+  };
+}
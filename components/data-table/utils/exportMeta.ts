@@ -0,0 +1,93 @@
+/**
+ * Export metadata of columns. Resolves the labels and values that exports and
+ * clipboard copies write for a column from its `meta.exportHeader` and
+ * `meta.exportValue`, so that every export format serializes columns the same way,
+ * and formats values as text by the formats of the column.
+ */
+
+import { Cell, Column } from "@tanstack/react-table";
+import {
+  formatDate,
+  formatMoney,
+} from "@/components/data-table/ui/cell-renderers";
+import { getAggregation } from "@/components/data-table/utils/aggregationRegistry";
+
+// Separator between the labels of header groups and their columns
+const HEADER_PATH_SEPARATOR = " / ";
+
+// "reviewDate" or "review_date" → "Review Date"
+const humanizeColumnId = (columnId: string): string =>
+  columnId
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .trim()
+    .replace(/\b\w/g, (letter) => letter.toUpperCase());
+
+// Label of a single column or header group, without its parents
+function getOwnHeaderLabel<TData>(column: Column<TData, unknown>): string {
+  const { header, meta } = column.columnDef;
+  if (meta?.exportHeader) return meta.exportHeader;
+  // Header functions render elements, so the label comes from the id instead
+  if (typeof header === "string" && header) return header;
+  return humanizeColumnId(column.id);
+}
+
+/**
+ * Label of a column in exports. Columns under header groups are labelled with
+ * the path of their groups, e.g. "Pricing / Amount".
+ */
+export function getColumnExportHeader<TData>(
+  column: Column<TData, unknown>,
+): string {
+  const labels: string[] = [];
+  for (
+    let current: Column<TData, unknown> | undefined = column;
+    current;
+    current = current.parent
+  ) {
+    labels.unshift(getOwnHeaderLabel(current));
+  }
+  return labels.join(HEADER_PATH_SEPARATOR);
+}
+
+/**
+ * Value of a cell in exports and copies. Cells showing the value of their own row
+ * go through the `exportValue` of their column; aggregated cells keep the
+ * aggregated value and placeholder cells of grouped columns stay empty.
+ */
+export function getCellExportValue<TData>(cell: Cell<TData, unknown>): unknown {
+  if (cell.getIsPlaceholder()) return undefined;
+  try {
+    const exportValue = cell.column.columnDef.meta?.exportValue;
+    return exportValue && !cell.getIsAggregated()
+      ? exportValue(cell.row)
+      : cell.getValue();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Value of a cell as formatted text, without rendering the cell: numbers by the
+ * `numberFormat` of their column, dates by its `dateFormat` and option values by
+ * their labels. Returns an empty string for values without a format, and for
+ * aggregates that the aggregation renders in its own way, such as counts.
+ */
+export function getCellExportText<TData>(cell: Cell<TData, unknown>): string {
+  const value = getCellExportValue(cell);
+  const { aggregationFn, meta } = cell.column.columnDef;
+  if (
+    cell.getIsAggregated() &&
+    typeof aggregationFn === "string" &&
+    getAggregation(aggregationFn)?.aggregatedCell
+  ) {
+    return "";
+  }
+  if (typeof value === "number" && meta?.numberFormat) {
+    return formatMoney(value, meta.numberFormat);
+  }
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return formatDate(value, meta?.dateFormat);
+  }
+  return meta?.options?.find((option) => option.value === value)?.label ?? "";
+}
@@ -1,59 +1,540 @@
 /**
  * Utilities for exporting table data to various formats.
  * Implements export functionality for CSV, Excel, and other formats while
- * handling data transformation and formatting requirements.
+ * handling data transformation and formatting requirements. Every format goes
+ * through the same export options: row scope, columns, raw or formatted values
+ * and file name.
  */
 
-import { Table } from "@tanstack/react-table";
+import { Cell, Column, Row, Table } from "@tanstack/react-table";
+import { format } from "date-fns";
+import { SELECTION_COLUMN_ID } from "@/components/data-table/ui/row/SelectionColumn";
+import { DETAIL_PANEL_COLUMN_ID } from "@/components/data-table/ui/row/DetailPanelColumn";
+import {
+  XLSX_MIME_TYPE,
+  XlsxCell,
+  XlsxRow,
+  createXlsx,
+  getDateNumberFormat,
+  getMoneyNumberFormat,
+  pixelsToColumnWidth,
+} from "@/components/data-table/utils/xlsx";
+import {
+  getCellExportText,
+  getCellExportValue,
+  getColumnExportHeader,
+} from "@/components/data-table/utils/exportMeta";
+
+export type ExportFormat = "csv" | "xlsx" | "json" | "ndjson" | "markdown";
+
+export type ExportScope = "all" | "filtered" | "selected" | "page";
+
+export type ExportColumnSelection = "visible" | "all" | "custom";
+
+export interface ExportOptions {
+  /** Rows to export: all data, the filtered rows, the selected rows or the current page */
+  scope: ExportScope;
+  /** Columns to export; `custom` exports the columns of `columnIds` in their order */
+  columns: ExportColumnSelection;
+  columnIds: string[];
+  /** Writes numbers, dates and options formatted by their columns instead of raw values */
+  formattedValues: boolean;
+  /** Field delimiter of CSV files */
+  delimiter: string;
+  /** Starts CSV files with a byte order mark, which Excel needs to detect UTF-8 */
+  includeBom: boolean;
+  /** File name without extension, where {date}, {time} and {timestamp} are replaced */
+  filename: string;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  scope: "filtered",
+  columns: "visible",
+  columnIds: [],
+  formattedValues: false,
+  delimiter: ",",
+  includeBom: false,
+  filename: "table-export-{timestamp}",
+};
+
+// File extension and MIME type of each format
+const EXPORT_FILE_TYPES: Record<
+  ExportFormat,
+  { extension: string; mimeType: string }
+> = {
+  csv: { extension: "csv", mimeType: "text/csv;charset=utf-8;" },
+  xlsx: { extension: "xlsx", mimeType: XLSX_MIME_TYPE },
+  json: { extension: "json", mimeType: "application/json;charset=utf-8;" },
+  ndjson: {
+    extension: "ndjson",
+    mimeType: "application/x-ndjson;charset=utf-8;",
+  },
+  markdown: { extension: "md", mimeType: "text/markdown;charset=utf-8;" },
+};
+
+// Row of an export with its place in the grouping outline
+interface ExportRow<TData> {
+  row: Row<TData>;
+  depth: number;
+  hidden: boolean;
+  collapsed: boolean;
+}
+
+interface ExportData<TData> {
+  columns: Column<TData, unknown>[];
+  headers: string[];
+  rows: ExportRow<TData>[];
+  cells: Cell<TData, unknown>[][];
+  // Formatted texts of the cells, when exporting formatted values
+  texts?: string[][];
+}
+
+// Excel supports up to 7 outline levels
+const MAX_OUTLINE_LEVEL = 7;
+
+// Aggregations whose values are counts, whatever the column formats
+const COUNT_AGGREGATIONS = new Set(["count", "uniqueCount"]);
+const COUNT_NUMBER_FORMAT = "#,##0";
+
+/**
+ * Data columns a table can export: the visible columns in display order, then
+ * the hidden ones. The selection checkbox and detail toggle columns hold no data.
+ */
+export function getExportableColumns<TData>(
+  table: Table<TData>,
+): Column<TData, unknown>[] {
+  const isDataColumn = (column: Column<TData, unknown>) =>
+    column.id !== SELECTION_COLUMN_ID && column.id !== DETAIL_PANEL_COLUMN_ID;
+
+  return [
+    ...table.getVisibleLeafColumns().filter(isDataColumn),
+    ...table
+      .getAllLeafColumns()
+      .filter((column) => isDataColumn(column) && !column.getIsVisible()),
+  ];
+}
+
+// Columns selected by the export options
+function getExportColumns<TData>(
+  table: Table<TData>,
+  options: ExportOptions,
+): Column<TData, unknown>[] {
+  const columns = getExportableColumns(table);
+  switch (options.columns) {
+    case "all":
+      return columns;
+    case "custom":
+      return options.columnIds.flatMap(
+        (columnId) => columns.find((column) => column.id === columnId) ?? [],
+      );
+    default:
+      return columns.filter((column) => column.getIsVisible());
+  }
+}
+
+// Rows in the scope of the export options. Rows keep their children, which are
+// hidden under collapsed rows as in the grid.
+function getExportRows<TData>(
+  table: Table<TData>,
+  scope: ExportScope,
+): ExportRow<TData>[] {
+  const exportRows: ExportRow<TData>[] = [];
+  const addRows = (rows: Row<TData>[], hidden: boolean) => {
+    rows.forEach((row) => {
+      const isExpanded = row.getIsExpanded();
+      exportRows.push({
+        row,
+        depth: row.depth,
+        hidden,
+        collapsed: row.subRows.length > 0 && !isExpanded,
+      });
+      addRows(row.subRows, hidden || !isExpanded);
+    });
+  };
+
+  switch (scope) {
+    case "all":
+      addRows(table.getCoreRowModel().rows, false);
+      break;
+    case "selected":
+      // Selected leaf rows, regardless of filters and grouping
+      table
+        .getSelectedRowModel()
+        .flatRows.forEach((row) =>
+          exportRows.push({ row, depth: 0, hidden: false, collapsed: false }),
+        );
+      break;
+    case "page":
+      // Rendered rows hold the expanded children of the rows on the page
+      addRows(
+        table.getRowModel().rows.filter((row) => row.depth === 0),
+        false,
+      );
+      break;
+    default:
+      addRows(table.getSortedRowModel().rows, false);
+  }
+  return exportRows;
+}
+
+/**
+ * Rows, columns and cells of an export, shared by every format
+ */
+function prepareExport<TData>(
+  table: Table<TData>,
+  options: ExportOptions,
+): ExportData<TData> {
+  const columns = getExportColumns(table, options);
+  const rows = getExportRows(table, options.scope);
+  const cells = rows.map(({ row }) => {
+    const cellsByColumnId = row._getAllCellsByColumnId();
+    return columns.map((column) => cellsByColumnId[column.id]);
+  });
+
+  return {
+    columns,
+    headers: columns.map(getColumnExportHeader),
+    rows,
+    cells,
+    texts: options.formattedValues
+      ? cells.map((rowCells) => rowCells.map(getCellExportText))
+      : undefined,
+  };
+}
+
+// Value of a cell in an export: its formatted text when exporting formatted
+// values, falling back to the export value for values without a format
+function getExportCellValue<TData>(
+  { cells, texts }: ExportData<TData>,
+  rowIndex: number,
+  columnIndex: number,
+): unknown {
+  return (
+    texts?.[rowIndex]?.[columnIndex] ||
+    getCellExportValue(cells[rowIndex][columnIndex])
+  );
+}
+
+// Values of a row keyed by column id
+function getExportRowObject<TData>(
+  data: ExportData<TData>,
+  rowIndex: number,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    data.columns.map((column, columnIndex) => [
+      column.id,
+      getExportCellValue(data, rowIndex, columnIndex) ?? null,
+    ]),
+  );
+}
 
 /**
  * Convert table data to CSV string
  */
 export function tableToCSV<TData>(
   table: Table<TData>,
-  includeAllColumns = true,
+  options: Partial<ExportOptions> = {},
 ): string {
-  // Get headers and rows
-  const headers = table.getAllColumns();
-  const rows = table.getRowModel().rows;
-  const visibleColumns = headers.filter((column) => column.getIsVisible());
-  const columnsToUse = includeAllColumns ? headers : visibleColumns;
+  const exportOptions = { ...DEFAULT_EXPORT_OPTIONS, ...options };
+  const { delimiter, includeBom } = exportOptions;
+  const { headers, cells, texts } = prepareExport(table, exportOptions);
 
   // Generate the header row
-  const headerRow = columnsToUse
-    .map((column) => {
-      const headerValue =
-        typeof column.columnDef.header === "function"
-          ? column.columnDef.header.toString()
-          : column.columnDef.header || column.id;
-
-      return escapeCSVValue(String(headerValue));
-    })
-    .join(",");
-
-  // Generate data rows
-  const dataRows = rows.map((row) => {
-    return columnsToUse
-      .map((column) => {
-        let cellValue;
-        try {
-          cellValue = row.getValue(column.id);
-        } catch {
-          cellValue = "";
-        }
-        return escapeCSVValue(formatCellValueForCSV(cellValue));
-      })
-      .join(",");
-  });
+  const headerRow = headers
+    .map((header) => escapeCSVValue(header, delimiter))
+    .join(delimiter);
+
+  // Generate data rows, falling back to raw values for values without a format
+  const dataRows = cells.map((rowCells, rowIndex) =>
+    rowCells
+      .map((cell, columnIndex) =>
+        escapeCSVValue(
+          texts?.[rowIndex]?.[columnIndex] ||
+            formatCellValueAsText(getCellExportValue(cell)),
+          delimiter,
+        ),
+      )
+      .join(delimiter),
+  );
 
   // Combine header and data rows
-  return [headerRow, ...dataRows].join("\n");
+  const csv = [headerRow, ...dataRows].join("\n");
+  return includeBom ? `\uFEFF${csv}` : csv;
 }
 
 /**
- * Format cell value for CSV
+ * Convert table data to an Excel workbook. Numbers and dates are written as typed
+ * cells formatted like their renderers, and group rows are written with their
+ * aggregated values and outline levels, so the workbook collapses like the grid.
  */
-function formatCellValueForCSV(value: unknown): string {
+export function tableToXLSX<TData>(
+  table: Table<TData>,
+  options: Partial<ExportOptions> = {},
+): Uint8Array {
+  const exportOptions = { ...DEFAULT_EXPORT_OPTIONS, ...options };
+  const { columns, headers, rows, cells, texts } = prepareExport(
+    table,
+    exportOptions,
+  );
+
+  // Number formats of the columns, derived once from their meta. An explicit
+  // exportFormat applies to both numbers and dates.
+  const formats = columns.map((column) => {
+    const meta = column.columnDef.meta;
+    return {
+      number:
+        meta?.exportFormat ??
+        (meta?.numberFormat
+          ? getMoneyNumberFormat(meta.numberFormat)
+          : undefined),
+      date: meta?.exportFormat ?? getDateNumberFormat(meta?.dateFormat),
+    };
+  });
+
+  const headerRow: XlsxRow = {
+    cells: headers.map((header) => ({ value: header, bold: true })),
+  };
+
+  const dataRows = rows.map(
+    ({ row, depth, hidden, collapsed }, rowIndex): XlsxRow => {
+      const isGroupRow = row.getIsGrouped();
+      return {
+        cells: cells[rowIndex].map((cell, columnIndex) => {
+          // Formatted values are written as text
+          const text = texts?.[rowIndex]?.[columnIndex];
+          return text
+            ? { value: text, bold: isGroupRow }
+            : getXlsxCell(cell, formats[columnIndex], isGroupRow);
+        }),
+        outlineLevel: Math.min(depth, MAX_OUTLINE_LEVEL),
+        hidden,
+        collapsed,
+      };
+    },
+  );
+
+  return createXlsx({
+    name: "Export",
+    rows: [headerRow, ...dataRows],
+    columnWidths: columns.map((column) =>
+      pixelsToColumnWidth(column.getSize()),
+    ),
+    frozenRows: 1,
+  });
+}
+
+/**
+ * Convert table data to JSON. When grouped, group rows become nodes holding their
+ * grouping column, group key, leaf row count, aggregated values and child rows;
+ * data rows are objects keyed by column id, with their child rows in `subRows`
+ * for tree data.
+ */
+export function tableToJSON<TData>(
+  table: Table<TData>,
+  options: Partial<ExportOptions> = {},
+): string {
+  const data = prepareExport(table, { ...DEFAULT_EXPORT_OPTIONS, ...options });
+
+  type JSONNode = Record<string, unknown>;
+  const roots: JSONNode[] = [];
+  // Ancestors of the current row, to attach rows to their parents
+  const ancestors: { depth: number; node: JSONNode; isGroup: boolean }[] = [];
+
+  data.rows.forEach(({ row, depth }, rowIndex) => {
+    const isGroup = row.getIsGrouped();
+    let node: JSONNode;
+    if (isGroup) {
+      const aggregates: Record<string, unknown> = {};
+      data.columns.forEach((column, columnIndex) => {
+        if (!data.cells[rowIndex][columnIndex].getIsAggregated()) return;
+        const value = getExportCellValue(data, rowIndex, columnIndex);
+        if (value !== undefined) aggregates[column.id] = value;
+      });
+      node = {
+        groupBy: row.groupingColumnId,
+        key: row.groupingValue,
+        count: row.getLeafRows().length,
+        aggregates,
+        rows: [],
+      };
+    } else {
+      node = getExportRowObject(data, rowIndex);
+    }
+
+    while (ancestors.length && ancestors[ancestors.length - 1].depth >= depth) {
+      ancestors.pop();
+    }
+    const parent = ancestors[ancestors.length - 1];
+    if (!parent) {
+      roots.push(node);
+    } else if (parent.isGroup) {
+      (parent.node.rows as JSONNode[]).push(node);
+    } else {
+      ((parent.node.subRows ??= []) as JSONNode[]).push(node);
+    }
+    ancestors.push({ depth, node, isGroup });
+  });
+
+  return JSON.stringify(roots, null, 2);
+}
+
+/**
+ * Convert the data rows of a table to newline-delimited JSON, one object keyed by
+ * column id per line. Group rows are left out.
+ */
+export function tableToNDJSON<TData>(
+  table: Table<TData>,
+  options: Partial<ExportOptions> = {},
+): string {
+  const data = prepareExport(table, { ...DEFAULT_EXPORT_OPTIONS, ...options });
+  return data.rows
+    .flatMap(({ row }, rowIndex) =>
+      row.getIsGrouped()
+        ? []
+        : [JSON.stringify(getExportRowObject(data, rowIndex))],
+    )
+    .join("\n");
+}
+
+/**
+ * Convert table data to a GitHub-flavored Markdown table. Numeric columns are
+ * right-aligned and the values of group rows are bold.
+ */
+export function tableToMarkdown<TData>(
+  table: Table<TData>,
+  options: Partial<ExportOptions> = {},
+): string {
+  const data = prepareExport(table, { ...DEFAULT_EXPORT_OPTIONS, ...options });
+  const toMarkdownRow = (texts: string[]) => `| ${texts.join(" | ")} |`;
+
+  const headerRow = toMarkdownRow(data.headers.map(escapeMarkdownValue));
+  const separatorRow = toMarkdownRow(
+    data.columns.map((column) =>
+      column.columnDef.meta?.dataType === "number" ? "---:" : "---",
+    ),
+  );
+  const dataRows = data.rows.map(({ row }, rowIndex) =>
+    toMarkdownRow(
+      data.columns.map((_, columnIndex) => {
+        const text = escapeMarkdownValue(
+          formatCellValueAsText(
+            getExportCellValue(data, rowIndex, columnIndex),
+          ),
+        );
+        return text && row.getIsGrouped() ? `**${text}**` : text;
+      }),
+    ),
+  );
+
+  return [headerRow, separatorRow, ...dataRows].join("\n");
+}
+
+/**
+ * Content of a table exported in the given format: a string, or the bytes of
+ * the workbook for Excel
+ */
+export function getExportContent<TData>(
+  table: Table<TData>,
+  exportFormat: ExportFormat,
+  options: Partial<ExportOptions> = {},
+): string | Uint8Array {
+  switch (exportFormat) {
+    case "xlsx":
+      return tableToXLSX(table, options);
+    case "json":
+      return tableToJSON(table, options);
+    case "ndjson":
+      return tableToNDJSON(table, options);
+    case "markdown":
+      return tableToMarkdown(table, options);
+    default:
+      return tableToCSV(table, options);
+  }
+}
+
+/**
+ * File name of an export: the template with {date}, {time} and {timestamp}
+ * replaced and the extension of the format added
+ */
+export function getExportFilename(
+  template: string,
+  exportFormat: ExportFormat,
+  date = new Date(),
+): string {
+  const name =
+    template
+      .replace(/\{date\}/g, format(date, "yyyy-MM-dd"))
+      .replace(/\{time\}/g, format(date, "HH-mm-ss"))
+      .replace(/\{timestamp\}/g, date.toISOString().replace(/[:.]/g, "-"))
+      .replace(/[\\/:*?"<>|]/g, "-")
+      .trim() || "table-export";
+  const extension = `.${EXPORT_FILE_TYPES[exportFormat].extension}`;
+  return name.toLowerCase().endsWith(extension) ? name : `${name}${extension}`;
+}
+
+/**
+ * Export a table in the given format and download the file
+ */
+export function exportTable<TData>(
+  table: Table<TData>,
+  exportFormat: ExportFormat,
+  options: Partial<ExportOptions> = {},
+): void {
+  const filename = getExportFilename(
+    options.filename ?? DEFAULT_EXPORT_OPTIONS.filename,
+    exportFormat,
+  );
+  downloadFile(
+    getExportContent(table, exportFormat, options),
+    filename,
+    EXPORT_FILE_TYPES[exportFormat].mimeType,
+  );
+}
+
+/**
+ * Typed Excel cell of a table cell. Aggregations that produce series, such as
+ * sparklines, have no single value and are left empty.
+ */
+function getXlsxCell<TData>(
+  cell: Cell<TData, unknown>,
+  formats: { number?: string; date: string },
+  isGroupRow: boolean,
+): XlsxCell {
+  let value = getCellExportValue(cell);
+
+  const { aggregationFn, meta } = cell.column.columnDef;
+  if (
+    typeof value === "string" &&
+    meta?.dataType === "date" &&
+    !isNaN(Date.parse(value))
+  ) {
+    value = new Date(value);
+  }
+
+  if (value instanceof Date) {
+    return { value, numberFormat: formats.date, bold: isGroupRow };
+  }
+  if (typeof value === "number") {
+    const isCount =
+      cell.getIsAggregated() &&
+      typeof aggregationFn === "string" &&
+      COUNT_AGGREGATIONS.has(aggregationFn);
+    return {
+      value,
+      numberFormat: isCount ? COUNT_NUMBER_FORMAT : formats.number,
+      bold: isGroupRow,
+    };
+  }
+  if (typeof value === "string" || typeof value === "boolean") {
+    return { value, bold: isGroupRow };
+  }
+  return { value: null, bold: isGroupRow };
+}
+
+/**
+ * Format cell value as text for CSV and Markdown
+ */
+function formatCellValueAsText(value: unknown): string {
   if (value === null || value === undefined) {
     return "";
   }
@@ -73,9 +554,12 @@ function formatCellValueForCSV(value: unknown): string {
 /**
  * Escape CSV value - wrap in quotes if needed and escape quotes
  */
-function escapeCSVValue(value: string): string {
+function escapeCSVValue(value: string, delimiter: string): string {
   const needsQuotes =
-    value.includes(",") || value.includes("\n") || value.includes('"');
+    value.includes(delimiter) ||
+    value.includes("\n") ||
+    value.includes("\r") ||
+    value.includes('"');
 
   if (needsQuotes) {
     // Escape quotes by doubling them and wrap in quotes
@@ -85,12 +569,34 @@ function escapeCSVValue(value: string): string {
   return value;
 }
 
+// Escape pipes and line breaks, which would break the cells of a Markdown table
+const escapeMarkdownValue = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+
 /**
  * Download data as a CSV file
  */
 export function downloadCSV(csvContent: string, filename: string): void {
-  // Create a blob with the CSV data
-  const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+  downloadFile(csvContent, filename, "text/csv;charset=utf-8;");
+}
+
+/**
+ * Download a workbook as an Excel file
+ */
+export function downloadXLSX(workbook: Uint8Array, filename: string): void {
+  downloadFile(workbook, filename, XLSX_MIME_TYPE);
+}
+
+/**
+ * Download content as a file through a temporary link
+ */
+function downloadFile(
+  content: BlobPart,
+  filename: string,
+  mimeType: string,
+): void {
+  // Create a blob with the file data
+  const blob = new Blob([content], { type: mimeType });
 
   // Create a download link
   const link = document.createElement("a");
@@ -0,0 +1,304 @@
+/**
+ * Utilities for importing rows from CSV and TSV text. Parses delimited text,
+ * matches its headers to table columns, coerces values to the types of the
+ * columns and builds row data, reporting the values that fail validation.
+ */
+
+import { Column, Table } from "@tanstack/react-table";
+import { FilterOption } from "@/components/data-table/types";
+import {
+  canWriteCellValue,
+  getCellEditorConfig,
+  writeCellValue,
+} from "@/components/data-table/utils/cellEditing";
+import { getColumnExportHeader } from "@/components/data-table/utils/exportMeta";
+import { getExportableColumns } from "@/components/data-table/utils/exportUtils";
+
+/** Fields of one record of delimited text */
+export interface DelimitedRecord {
+  fields: string[];
+  /** Line of the text the record starts on, counting from 1 */
+  lineNumber: number;
+}
+
+export interface ImportRowError {
+  /** Line of the imported text the row starts on */
+  rowNumber: number;
+  columnId: string;
+  value: string;
+  message: string;
+}
+
+export interface ImportResult<TData> {
+  /** Rows whose values all passed validation */
+  rows: TData[];
+  errors: ImportRowError[];
+  /** Line numbers of the rows left out because of errors */
+  invalidRowNumbers: number[];
+}
+
+type ImportValueResult = { value: unknown } | { error: string };
+
+const DELIMITER_CANDIDATES = ["\t", ";", ","];
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0"]);
+
+// Lowercase letters and digits only, so "Review Date" matches "reviewDate"
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+// Delimiter of the text: the candidate found most often in its first line,
+// ignoring quoted fields
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  const counts = DELIMITER_CANDIDATES.map(
+    (delimiter) => firstLine.split(delimiter).length - 1,
+  );
+  const max = Math.max(...counts);
+  return max > 0 ? DELIMITER_CANDIDATES[counts.indexOf(max)] : ",";
+}
+
+/**
+ * Parse CSV or TSV text into records of fields, with the line each record starts
+ * on. Quoted fields may hold delimiters, line breaks and doubled quotes. The
+ * delimiter is detected from the first line unless given.
+ */
+export function parseDelimitedText(
+  text: string,
+  delimiter = detectDelimiter(text),
+): DelimitedRecord[] {
+  const input = text.replace(/^\uFEFF/, "");
+  const records: DelimitedRecord[] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        // Line breaks inside quoted fields still count as lines of the text
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) line++;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push({ fields: record, lineNumber: recordLine });
+      record = [];
+      field = "";
+      recordLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push({ fields: record, lineNumber: recordLine });
+  }
+
+  // Blank lines hold no data
+  return records.filter(({ fields }) => fields.some((value) => value.trim()));
+}
+
+/**
+ * Columns rows can be imported into: data columns whose values can be written
+ * into row data
+ */
+export function getImportableColumns<TData>(
+  table: Table<TData>,
+): Column<TData, unknown>[] {
+  return getExportableColumns(table).filter((column) =>
+    canWriteCellValue(column.columnDef),
+  );
+}
+
+/**
+ * Column matched to each header, by id or label ignoring case, spaces and
+ * punctuation. Each column is matched to one header at most.
+ */
+export function matchImportColumns<TData>(
+  headers: string[],
+  columns: Column<TData, unknown>[],
+): (string | null)[] {
+  const matched = new Set<string>();
+  return headers.map((header) => {
+    const name = normalizeName(header);
+    const column = columns.find(
+      (candidate) =>
+        !matched.has(candidate.id) &&
+        name !== "" &&
+        (normalizeName(candidate.id) === name ||
+          normalizeName(getColumnExportHeader(candidate)) === name),
+    );
+    if (!column) return null;
+    matched.add(column.id);
+    return column.id;
+  });
+}
+
+// Choices of category columns: the editor's options or the filter options
+const getColumnOptions = <TData>(
+  column: Column<TData, unknown>,
+): FilterOption[] | undefined =>
+  getCellEditorConfig(column.columnDef)?.options ??
+  column.columnDef.meta?.options;
+
+// Number from text such as "1,234.50", "$ 1 234" or "(12.5)"
+function parseNumber(text: string): number | null {
+  let normalized = text.replace(/[\s\u00a0\u202f$€£¥]/g, "");
+  const isNegative = /^\(.*\)$/.test(normalized);
+  normalized = normalized
+    .replace(/^\((.*)\)$/, "$1")
+    .replace(/,(?=\d{3}(?:\D|$))/g, "");
+  const value = Number(normalized);
+  if (normalized === "" || !Number.isFinite(value)) return null;
+  return isNegative ? -value : value;
+}
+
+// Date from text; dates without a time are read in local time
+function parseDate(text: string): Date | null {
+  const isoDate = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  const date = isoDate
+    ? new Date(Number(isoDate[1]), Number(isoDate[2]) - 1, Number(isoDate[3]))
+    : new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Convert a non-empty text to the type of its column: category values by the
+// options of the column, other values by `meta.dataType`
+function convertImportText<TData>(
+  text: string,
+  column: Column<TData, unknown>,
+): ImportValueResult {
+  const options = getColumnOptions(column);
+  if (options?.length) {
+    const name = text.toLowerCase();
+    const option = options.find(
+      (candidate) =>
+        candidate.value.toLowerCase() === name ||
+        candidate.label.toLowerCase() === name,
+    );
+    if (!option) {
+      return {
+        error: `"${text}" is not one of ${options
+          .map((candidate) => candidate.label)
+          .join(", ")}`,
+      };
+    }
+    return { value: option.value };
+  }
+
+  switch (column.columnDef.meta?.dataType) {
+    case "number": {
+      const value = parseNumber(text);
+      return value === null
+        ? { error: `"${text}" is not a number` }
+        : { value };
+    }
+    case "date": {
+      const value = parseDate(text);
+      return value === null ? { error: `"${text}" is not a date` } : { value };
+    }
+    case "boolean": {
+      const name = text.toLowerCase();
+      if (TRUE_VALUES.has(name)) return { value: true };
+      if (FALSE_VALUES.has(name)) return { value: false };
+      return { error: `"${text}" is not yes or no` };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+/**
+ * Convert an imported text to the type of its column: numbers, dates and
+ * booleans by `meta.dataType`, and category values validated against the options
+ * of the column. Values are then validated by the schema of its editor, if any.
+ * Empty texts give undefined, which the schema rejects for required values.
+ */
+export function coerceImportValue<TData>(
+  text: string,
+  column: Column<TData, unknown>,
+): ImportValueResult {
+  const trimmed = text.trim();
+  const converted: ImportValueResult =
+    trimmed === "" ? { value: undefined } : convertImportText(trimmed, column);
+  if ("error" in converted) return converted;
+
+  const schema = getCellEditorConfig(column.columnDef)?.schema;
+  if (!schema) return converted;
+  const result = schema.safeParse(converted.value);
+  return result.success
+    ? { value: result.data }
+    : { error: result.error.issues[0]?.message ?? "Invalid value" };
+}
+
+/**
+ * Build row data from imported records, with the column mapped to each field.
+ * Rows holding any invalid value are left out and their errors reported; rows
+ * without values in the mapped fields are skipped.
+ */
+export function parseImportRows<TData>(
+  records: DelimitedRecord[],
+  mapping: (string | null)[],
+  columns: Column<TData, unknown>[],
+): ImportResult<TData> {
+  const result: ImportResult<TData> = {
+    rows: [],
+    errors: [],
+    invalidRowNumbers: [],
+  };
+  const mappedColumns = mapping.map((columnId) =>
+    columnId ? columns.find((column) => column.id === columnId) : undefined,
+  );
+
+  records.forEach(({ fields: record, lineNumber: rowNumber }) => {
+    // Rows without values in the mapped fields are not validated
+    const hasValue = mappedColumns.some(
+      (column, fieldIndex) => column && record[fieldIndex]?.trim(),
+    );
+    if (!hasValue) return;
+
+    let row = {} as TData;
+    let isValid = true;
+
+    mappedColumns.forEach((column, fieldIndex) => {
+      if (!column) return;
+      const text = record[fieldIndex] ?? "";
+      const coerced = coerceImportValue(text, column);
+      if ("error" in coerced) {
+        isValid = false;
+        result.errors.push({
+          rowNumber,
+          columnId: column.id,
+          value: text,
+          message: coerced.error,
+        });
+      } else if (coerced.value !== undefined) {
+        row = writeCellValue(row, column.columnDef, coerced.value);
+      }
+    });
+
+    if (isValid) {
+      result.rows.push(row);
+    } else {
+      result.invalidRowNumbers.push(rowNumber);
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,297 @@
+/**
+ * Pivot table support. Generates the column groups of a pivot from the distinct
+ * values of the pivot columns, with one column per value column and aggregation
+ * under every pivot value plus subtotal and total columns, and provides the
+ * grouped row model that shows the row groups of a pivot without their leaf rows.
+ */
+
+import {
+  CellContext,
+  ColumnDef,
+  Row,
+  RowModel,
+  Table,
+  flexRender,
+  getGroupedRowModel,
+  getMemoOptions,
+  memo,
+} from "@tanstack/react-table";
+import { PivotState } from "@/components/data-table/types";
+import { AggregationFunction } from "@/components/data-table/utils/aggregationFunctions";
+import { getAggregation } from "@/components/data-table/utils/aggregationRegistry";
+
+export const PIVOT_COLUMN_PREFIX = "pivot:";
+
+export const EMPTY_PIVOT_STATE: PivotState = {
+  enabled: false,
+  rows: [],
+  columns: [],
+  values: [],
+};
+
+// Label of empty pivot values
+const BLANK_PIVOT_VALUE = "(Blank)";
+
+export const isPivotColumnId = (columnId: string) =>
+  columnId.startsWith(PIVOT_COLUMN_PREFIX);
+
+/**
+ * Whether a pivot configuration is complete enough to be shown
+ */
+export const isPivotStateActive = (pivot: PivotState) =>
+  pivot.enabled && pivot.rows.length > 0 && pivot.values.length > 0;
+
+/**
+ * Id of a column definition, resolved like TanStack Table does
+ */
+export function getColumnDefId<TData, TValue>(
+  columnDef: ColumnDef<TData, TValue>,
+): string | undefined {
+  if (columnDef.id) return columnDef.id;
+  if ("accessorKey" in columnDef && columnDef.accessorKey !== undefined) {
+    return String(columnDef.accessorKey).replace(/\./g, "_");
+  }
+  return typeof columnDef.header === "string" ? columnDef.header : undefined;
+}
+
+/**
+ * Leaf column definitions, flattening column groups
+ */
+export function getLeafColumnDefs<TData, TValue>(
+  columnDefs: ColumnDef<TData, TValue>[],
+): ColumnDef<TData, TValue>[] {
+  return columnDefs.flatMap((columnDef) =>
+    "columns" in columnDef && columnDef.columns
+      ? getLeafColumnDefs(columnDef.columns as ColumnDef<TData, TValue>[])
+      : [columnDef],
+  );
+}
+
+// Read the value of a column from original data, dotted accessor keys being paths
+const getColumnValueGetter = <TData, TValue>(
+  columnDef: ColumnDef<TData, TValue>,
+): ((original: TData, index: number) => unknown) => {
+  if ("accessorFn" in columnDef && columnDef.accessorFn) {
+    return columnDef.accessorFn;
+  }
+  if ("accessorKey" in columnDef && columnDef.accessorKey !== undefined) {
+    const path = String(columnDef.accessorKey).split(".");
+    return (original) =>
+      path.reduce<unknown>(
+        (value, key) => (value as Record<string, unknown> | null)?.[key],
+        original,
+      );
+  }
+  return () => undefined;
+};
+
+// Values are grouped by their text, like the group rows of TanStack Table
+const toPivotKey = (value: unknown) =>
+  value == null || value === "" ? BLANK_PIVOT_VALUE : String(value);
+
+const compareKeys = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true });
+
+// Distinct values of the pivot columns, as a tree keyed by value
+interface PivotKeyTree {
+  [key: string]: PivotKeyTree;
+}
+
+interface CreatePivotColumnsOptions<TData, TValue> {
+  columns: ColumnDef<TData, TValue>[];
+  data: TData[];
+  pivot: PivotState;
+  aggregationFns: Record<string, AggregationFunction>;
+}
+
+/**
+ * Column groups of a pivot table. Every leaf column aggregates one value column
+ * over the rows matching the pivot values of its group; subtotal and total
+ * columns aggregate over all rows matching the values of their parent groups.
+ */
+export function createPivotColumns<TData, TValue>({
+  columns,
+  data,
+  pivot,
+  aggregationFns,
+}: CreatePivotColumnsOptions<TData, TValue>): ColumnDef<TData, unknown>[] {
+  const leafColumnDefs = getLeafColumnDefs(columns);
+  const findColumnDef = (columnId: string) =>
+    leafColumnDefs.find((columnDef) => getColumnDefId(columnDef) === columnId);
+
+  const pivotGetters = pivot.columns.map((columnId) => {
+    const columnDef = findColumnDef(columnId);
+    return columnDef ? getColumnValueGetter(columnDef) : () => undefined;
+  });
+  // Every value column matches rows against their keys, so they are cached
+  const pivotKeysCache = new Map<TData, string[]>();
+  const getPivotKeys = (original: TData, index: number) => {
+    let keys = pivotKeysCache.get(original);
+    if (!keys) {
+      keys = pivotGetters.map((getValue) =>
+        toPivotKey(getValue(original, index)),
+      );
+      pivotKeysCache.set(original, keys);
+    }
+    return keys;
+  };
+
+  // Collect the distinct values of the pivot columns from all data, so that
+  // the columns stay in place while filtering
+  const keyTree: PivotKeyTree = {};
+  data.forEach((original, index) => {
+    let level = keyTree;
+    getPivotKeys(original, index).forEach((key) => {
+      level[key] ??= {};
+      level = level[key];
+    });
+  });
+
+  const values = pivot.values.flatMap((value) => {
+    const columnDef = findColumnDef(value.columnId);
+    // Ignore columns and aggregations that no longer exist
+    if (!columnDef || !(value.aggregationFn in aggregationFns)) return [];
+    return [
+      { ...value, columnDef, aggregate: aggregationFns[value.aggregationFn] },
+    ];
+  });
+
+  // Value columns of the rows matching the pivot values of a path
+  const createValueColumns = (path: string[]): ColumnDef<TData, unknown>[] =>
+    values.map(({ columnId, aggregationFn, columnDef, aggregate }) => {
+      const getValue = getColumnValueGetter(columnDef);
+      const matchesPath = (original: TData, index: number) => {
+        const keys = getPivotKeys(original, index);
+        return path.every((key, level) => keys[level] === key);
+      };
+
+      const definition = getAggregation(aggregationFn);
+      const aggregationLabel = definition?.label ?? aggregationFn;
+      const valueLabel =
+        typeof columnDef.header === "string" ? columnDef.header : columnId;
+
+      const renderValue = (context: CellContext<TData, unknown>) => {
+        const total = context.getValue();
+        if (total == null) return null;
+        // Counts, histograms etc. render like the aggregation does elsewhere
+        if (definition?.aggregatedCell) {
+          return flexRender(
+            definition.aggregatedCell,
+            context as CellContext<unknown, unknown>,
+          );
+        }
+        // Format sums, averages etc. like the values of the column
+        if (columnDef.cell) {
+          return flexRender(
+            columnDef.cell,
+            context as CellContext<TData, TValue>,
+          );
+        }
+        return typeof total === "number"
+          ? total.toLocaleString(undefined, { maximumFractionDigits: 2 })
+          : String(total);
+      };
+
+      return {
+        id: `${PIVOT_COLUMN_PREFIX}${path
+          .map(encodeURIComponent)
+          .join("/")}:${columnId}:${aggregationFn}`,
+        header: `${aggregationLabel} of ${valueLabel}`,
+        accessorFn: (original: TData, index: number) =>
+          matchesPath(original, index) ? getValue(original, index) : undefined,
+        // Aggregate only the rows under the pivot values of this column
+        aggregationFn: (id: string, leafRows: Row<TData>[]) => {
+          // Registered aggregation functions take rows of any data type
+          const matchingRows = leafRows.filter((row) =>
+            matchesPath(row.original, row.index),
+          ) as Row<unknown>[];
+          return matchingRows.length > 0
+            ? aggregate(id, matchingRows, matchingRows)
+            : undefined;
+        },
+        cell: renderValue,
+        aggregatedCell: renderValue,
+        // Weighted aggregations weigh by the weight column of the value column
+        meta: { weightColumn: columnDef.meta?.weightColumn },
+        enableSorting: false,
+        enableColumnFilter: false,
+        enableGrouping: false,
+        enableHiding: false,
+        enablePinning: false,
+      } as ColumnDef<TData, unknown>;
+    });
+
+  const createGroups = (
+    level: PivotKeyTree,
+    path: string[],
+  ): ColumnDef<TData, unknown>[] => {
+    if (path.length === pivot.columns.length) {
+      return createValueColumns(path);
+    }
+
+    const groups: ColumnDef<TData, unknown>[] = Object.keys(level)
+      .sort(compareKeys)
+      .map((key) => ({
+        id: `${PIVOT_COLUMN_PREFIX}${[...path, key]
+          .map(encodeURIComponent)
+          .join("/")}`,
+        header: key,
+        columns: createGroups(level[key], [...path, key]),
+      }));
+
+    // Subtotal of the parent pivot value, or the grand total at the top
+    return [
+      ...groups,
+      {
+        id: `${PIVOT_COLUMN_PREFIX}${path
+          .map(encodeURIComponent)
+          .join("/")}#total`,
+        header: path.length > 0 ? `${path[path.length - 1]} Total` : "Total",
+        columns: createValueColumns(path),
+      },
+    ];
+  };
+
+  return createGroups(keyTree, []);
+}
+
+/**
+ * Grouped row model that, in pivot mode, leaves out the leaf rows so that the
+ * innermost row groups are the rows of the pivot. Their aggregations still cover
+ * all of their leaf rows. Wraps the given grouped row model, TanStack Table's by
+ * default.
+ */
+export function getPivotGroupedRowModel<TData>(
+  getBaseGroupedRowModel: (
+    table: Table<TData>,
+  ) => () => RowModel<TData> = getGroupedRowModel<TData>(),
+): (table: Table<TData>) => () => RowModel<TData> {
+  return (table) => {
+    const getBaseRowModel = getBaseGroupedRowModel(table);
+
+    return memo(
+      () => [getBaseRowModel(), table.options.meta?.isPivotMode],
+      (rowModel, isPivotMode) => {
+        if (!isPivotMode) return rowModel;
+
+        const flatRows: Row<TData>[] = [];
+        const rowsById: Record<string, Row<TData>> = {};
+
+        const stripLeafRows = (rows: Row<TData>[]): Row<TData>[] =>
+          rows
+            .filter((row) => row.getIsGrouped())
+            .map((row) => {
+              // Copy the rows, the grouped row model is shared with non-pivot mode
+              const pivotRow = { ...row };
+              flatRows.push(pivotRow);
+              rowsById[pivotRow.id] = pivotRow;
+              pivotRow.subRows = stripLeafRows(row.subRows ?? []);
+              return pivotRow;
+            });
+
+        return { rows: stripLeafRows(rowModel.rows), flatRows, rowsById };
+      },
+      getMemoOptions(table.options, "debugTable", "getPivotGroupedRowModel"),
+    );
+  };
+}
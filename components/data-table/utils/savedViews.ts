@@ -0,0 +1,135 @@
+/**
+ * Persistence for named table views. Defines the saved view format, the pluggable
+ * storage interface with its localStorage default, and the migration step that
+ * upgrades views saved by older schema versions or against an older column set.
+ */
+
+import {
+  EMPTY_TABLE_STATE_SNAPSHOT,
+  TableStateSnapshot,
+  pruneTableStateSnapshot,
+} from "@/components/data-table/utils/tableState";
+
+/**
+ * Bump whenever the shape of TableStateSnapshot changes and add a migration step
+ * from the previous version to SNAPSHOT_MIGRATIONS.
+ */
+export const SAVED_VIEW_SCHEMA_VERSION = 4;
+
+export interface SavedView {
+  id: string;
+  name: string;
+  schemaVersion: number;
+  createdAt: string;
+  updatedAt: string;
+  state: TableStateSnapshot;
+}
+
+/**
+ * Storage backend for saved views. Implementations may be synchronous
+ * (localStorage) or asynchronous (a user preferences API).
+ */
+export interface SavedViewStorage {
+  loadViews: (tableId: string) => SavedView[] | Promise<SavedView[]>;
+  saveViews: (tableId: string, views: SavedView[]) => void | Promise<void>;
+}
+
+/**
+ * Create a storage backend that keeps views in window.localStorage,
+ * one entry per table.
+ */
+export function createLocalStorageViewStorage(
+  keyPrefix = "data-table-views",
+): SavedViewStorage {
+  const getKey = (tableId: string) => `${keyPrefix}:${tableId}`;
+
+  return {
+    loadViews: (tableId) => {
+      if (typeof window === "undefined") return [];
+      try {
+        const rawViews = window.localStorage.getItem(getKey(tableId));
+        const views: unknown = rawViews ? JSON.parse(rawViews) : [];
+        return Array.isArray(views) ? (views as SavedView[]) : [];
+      } catch {
+        // Corrupt entries are treated as no saved views
+        return [];
+      }
+    },
+    saveViews: (tableId, views) => {
+      if (typeof window === "undefined") return;
+      window.localStorage.setItem(getKey(tableId), JSON.stringify(views));
+    },
+  };
+}
+
+/**
+ * Whether a stored entry has the shape of a saved view
+ */
+export function isSavedView(value: unknown): value is SavedView {
+  if (typeof value !== "object" || value === null) return false;
+  const view = value as Partial<SavedView>;
+  return typeof view.id === "string" && typeof view.name === "string";
+}
+
+// Upgrade steps keyed by the schema version they upgrade from
+const SNAPSHOT_MIGRATIONS: Record<
+  number,
+  (state: Partial<TableStateSnapshot>) => Partial<TableStateSnapshot>
+> = {
+  // Version 1 views have no column pinning
+  1: (state) => ({ ...state, columnPinning: {} }),
+  // Version 2 views have no conditional formats
+  2: (state) => ({ ...state, conditionalFormats: [] }),
+  // Version 3 views have no aggregation weights
+  3: (state) => ({ ...state, aggregationWeights: {} }),
+};
+
+/**
+ * Upgrade a stored view to the current schema version and drop references to
+ * columns that no longer exist. Returns null for views saved by a newer schema
+ * version, which cannot be read.
+ */
+export function migrateSavedView(
+  view: SavedView,
+  columnIds: string[],
+): SavedView | null {
+  // Views written before versioning count as version 1
+  const version = Number.isInteger(view.schemaVersion)
+    ? Math.max(view.schemaVersion, 1)
+    : 1;
+  if (version > SAVED_VIEW_SCHEMA_VERSION) return null;
+
+  let storedState: Partial<TableStateSnapshot> = view.state ?? {};
+  for (let step = version; step < SAVED_VIEW_SCHEMA_VERSION; step++) {
+    storedState = SNAPSHOT_MIGRATIONS[step](storedState);
+  }
+  // Views written before versioning may miss any of the snapshot fields
+  const state: TableStateSnapshot = {
+    ...EMPTY_TABLE_STATE_SNAPSHOT,
+    ...storedState,
+  };
+
+  return {
+    ...view,
+    schemaVersion: SAVED_VIEW_SCHEMA_VERSION,
+    state: pruneTableStateSnapshot(state, columnIds),
+  };
+}
+
+/**
+ * Create a new saved view from a state snapshot
+ */
+export function createSavedView(
+  name: string,
+  state: TableStateSnapshot,
+): SavedView {
+  const now = new Date().toISOString();
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    schemaVersion: SAVED_VIEW_SCHEMA_VERSION,
+    createdAt: now,
+    updatedAt: now,
+    state,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Sorted row model with sort-within-group semantics. Leaf rows are sorted by the
+ * full multi-column sort inside their group. Group rows are sorted by the sort
+ * entry of their own grouping column and by the aggregated values of the sorted
+ * value columns, skipping the entries of the other grouping columns, which have
+ * no value at their level. Without grouping it behaves like TanStack Table's
+ * getSortedRowModel.
+ */
+
+import {
+  Row,
+  RowModel,
+  SortingFn,
+  SortingState,
+  Table,
+  getMemoOptions,
+  memo,
+} from "@tanstack/react-table";
+
+interface SortColumnInfo<TData> {
+  sortUndefined?: false | -1 | 1 | "first" | "last";
+  invertSorting?: boolean;
+  sortingFn: SortingFn<TData>;
+}
+
+// Compare two rows by the sort entries in priority order, like TanStack Table does
+const compareRows = <TData>(
+  rowA: Row<TData>,
+  rowB: Row<TData>,
+  sorting: SortingState,
+  columnInfoById: Record<string, SortColumnInfo<TData>>,
+): number => {
+  for (const sortEntry of sorting) {
+    const { sortUndefined, invertSorting, sortingFn } =
+      columnInfoById[sortEntry.id];
+    let sortInt = 0;
+
+    if (sortUndefined) {
+      const aUndefined = rowA.getValue(sortEntry.id) === undefined;
+      const bUndefined = rowB.getValue(sortEntry.id) === undefined;
+
+      if (aUndefined || bUndefined) {
+        if (sortUndefined === "first") return aUndefined ? -1 : 1;
+        if (sortUndefined === "last") return aUndefined ? 1 : -1;
+        sortInt =
+          aUndefined && bUndefined
+            ? 0
+            : aUndefined
+              ? sortUndefined
+              : -sortUndefined;
+      }
+    }
+
+    if (sortInt === 0) {
+      sortInt = sortingFn(rowA, rowB, sortEntry.id);
+    }
+
+    if (sortInt !== 0) {
+      if (sortEntry.desc) sortInt *= -1;
+      if (invertSorting) sortInt *= -1;
+      return sortInt;
+    }
+  }
+
+  return rowA.index - rowB.index;
+};
+
+export function getGroupAwareSortedRowModel<TData>(): (
+  table: Table<TData>,
+) => () => RowModel<TData> {
+  return (table) =>
+    memo(
+      () => [
+        table.getState().sorting,
+        table.getState().grouping,
+        table.getPreSortedRowModel(),
+      ],
+      (sorting, grouping, rowModel) => {
+        if (!rowModel.rows.length || !sorting?.length) {
+          return rowModel;
+        }
+
+        // Ignore sort entries of missing or unsortable columns
+        const availableSorting = sorting.filter((sort) =>
+          table.getColumn(sort.id)?.getCanSort(),
+        );
+
+        const columnInfoById: Record<string, SortColumnInfo<TData>> = {};
+        availableSorting.forEach((sortEntry) => {
+          const column = table.getColumn(sortEntry.id);
+          if (!column) return;
+          columnInfoById[sortEntry.id] = {
+            sortUndefined: column.columnDef.sortUndefined,
+            invertSorting: column.columnDef.invertSorting,
+            sortingFn: column.getSortingFn(),
+          };
+        });
+
+        const sortedFlatRows: Row<TData>[] = [];
+
+        const sortRows = (rows: Row<TData>[]): Row<TData>[] => {
+          const sortedRows = rows.map((row) => ({ ...row }));
+
+          // Sibling group rows share their grouping column
+          const groupRow = sortedRows.find((row) => row.getIsGrouped());
+          const rowSorting = groupRow
+            ? availableSorting.filter(
+                (sort) =>
+                  sort.id === groupRow.groupingColumnId ||
+                  !grouping.includes(sort.id),
+              )
+            : availableSorting;
+
+          if (rowSorting.length > 0) {
+            sortedRows.sort((rowA, rowB) =>
+              compareRows(rowA, rowB, rowSorting, columnInfoById),
+            );
+          }
+
+          sortedRows.forEach((row) => {
+            sortedFlatRows.push(row);
+            if (row.subRows?.length) {
+              row.subRows = sortRows(row.subRows);
+            }
+          });
+
+          return sortedRows;
+        };
+
+        return {
+          rows: sortRows(rowModel.rows),
+          flatRows: sortedFlatRows,
+          rowsById: rowModel.rowsById,
+        };
+      },
+      getMemoOptions(
+        table.options,
+        "debugTable",
+        "getGroupAwareSortedRowModel",
+        () => table._autoResetPageIndex(),
+      ),
+    );
+}
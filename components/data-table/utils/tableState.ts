@@ -0,0 +1,134 @@
+/**
+ * Utilities for capturing and restoring a serializable snapshot of the table layout.
+ * Snapshots hold everything a user customizes (grouping, column order, visibility,
+ * widths, pinning, filters, sorting, aggregation choices and conditional formats)
+ * and are the common format used by saved views and other state persistence features.
+ */
+
+import {
+  ColumnFiltersState,
+  ColumnOrderState,
+  ColumnPinningState,
+  ColumnSizingState,
+  GroupingState,
+  SortingState,
+  Table,
+  VisibilityState,
+} from "@tanstack/react-table";
+import { ConditionalFormatRule } from "@/components/data-table/types";
+
+export interface TableStateSnapshot {
+  grouping: GroupingState;
+  columnOrder: ColumnOrderState;
+  columnVisibility: VisibilityState;
+  columnSizing: ColumnSizingState;
+  columnPinning: ColumnPinningState;
+  columnFilters: ColumnFiltersState;
+  sorting: SortingState;
+  /** Aggregation function name chosen per column in its column menu */
+  columnAggregations: Record<string, string>;
+  /** Weight column chosen per column in its menu for weighted aggregations */
+  aggregationWeights: Record<string, string>;
+  conditionalFormats: ConditionalFormatRule[];
+}
+
+export const EMPTY_TABLE_STATE_SNAPSHOT: TableStateSnapshot = {
+  grouping: [],
+  columnOrder: [],
+  columnVisibility: {},
+  columnSizing: {},
+  columnPinning: {},
+  columnFilters: [],
+  sorting: [],
+  columnAggregations: {},
+  aggregationWeights: {},
+  conditionalFormats: [],
+};
+
+/**
+ * Capture the current layout of a table
+ */
+export function getTableStateSnapshot<TData>(
+  table: Table<TData>,
+): TableStateSnapshot {
+  const state = table.getState();
+
+  return {
+    grouping: state.grouping,
+    columnOrder: state.columnOrder,
+    columnVisibility: state.columnVisibility,
+    columnSizing: state.columnSizing,
+    columnPinning: state.columnPinning,
+    columnFilters: state.columnFilters,
+    sorting: state.sorting,
+    // Only the choices made in the column menus, so that views follow later
+    // changes of the aggregations the columns declare
+    columnAggregations: table.options.meta?.columnAggregations ?? {},
+    aggregationWeights: table.options.meta?.aggregationWeights ?? {},
+    conditionalFormats: table.options.meta?.conditionalFormats ?? [],
+  };
+}
+
+/**
+ * Drop every reference to columns that no longer exist, so that a snapshot taken
+ * against an older column set can be applied safely.
+ */
+export function pruneTableStateSnapshot(
+  snapshot: TableStateSnapshot,
+  columnIds: string[],
+): TableStateSnapshot {
+  const knownIds = new Set(columnIds);
+  const pickKnown = <T>(record: Record<string, T>): Record<string, T> =>
+    Object.fromEntries(
+      Object.entries(record).filter(([columnId]) => knownIds.has(columnId)),
+    );
+
+  return {
+    grouping: snapshot.grouping.filter((id) => knownIds.has(id)),
+    columnOrder: snapshot.columnOrder.filter((id) => knownIds.has(id)),
+    columnVisibility: pickKnown(snapshot.columnVisibility),
+    columnSizing: pickKnown(snapshot.columnSizing),
+    columnPinning: {
+      left: snapshot.columnPinning.left?.filter((id) => knownIds.has(id)),
+      right: snapshot.columnPinning.right?.filter((id) => knownIds.has(id)),
+    },
+    columnFilters: snapshot.columnFilters.filter((filter) =>
+      knownIds.has(filter.id),
+    ),
+    sorting: snapshot.sorting.filter((sort) => knownIds.has(sort.id)),
+    columnAggregations: pickKnown(snapshot.columnAggregations),
+    aggregationWeights: Object.fromEntries(
+      Object.entries(snapshot.aggregationWeights).filter(
+        ([columnId, weightColumn]) =>
+          knownIds.has(columnId) && knownIds.has(weightColumn),
+      ),
+    ),
+    conditionalFormats: snapshot.conditionalFormats.filter((rule) =>
+      knownIds.has(rule.columnId),
+    ),
+  };
+}
+
+/**
+ * Restore a previously captured layout onto a table
+ */
+export function applyTableStateSnapshot<TData>(
+  table: Table<TData>,
+  snapshot: TableStateSnapshot,
+): void {
+  const { grouping } = table.getState();
+
+  table.setColumnOrder(snapshot.columnOrder);
+  table.setColumnVisibility(snapshot.columnVisibility);
+  table.setColumnSizing(snapshot.columnSizing);
+  table.setColumnPinning(snapshot.columnPinning);
+  table.setColumnFilters(snapshot.columnFilters);
+  table.setSorting(snapshot.sorting);
+  table.options.meta?.setColumnAggregations?.(snapshot.columnAggregations);
+  table.options.meta?.setAggregationWeights?.(snapshot.aggregationWeights);
+  table.options.meta?.setConditionalFormats?.(snapshot.conditionalFormats);
+
+  if (JSON.stringify(grouping) !== JSON.stringify(snapshot.grouping)) {
+    table.setGrouping(snapshot.grouping);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Builds the synthetic row behind the totals row. Its values are the aggregations
+ * of the filtered leaf rows, computed with each column's aggregation function the
+ * same way TanStack Table aggregates group rows, so that the totals render through
+ * the aggregatedCell renderers of the columns.
+ */
+
+import { Column, Row, RowModel, Table, createRow } from "@tanstack/react-table";
+
+export const TOTALS_ROW_ID = "__totals__";
+
+/**
+ * Row whose getValue returns the total of a column over the leaf rows of the
+ * filtered row model, or undefined for columns without an aggregation function
+ */
+export function createTotalsRow<TData>(
+  table: Table<TData>,
+  filteredRowModel: RowModel<TData>,
+  columns: Column<TData, unknown>[],
+): Row<TData> {
+  // Leaf rows that pass the current filters, across all pages
+  const leafRows = filteredRowModel.flatRows.filter(
+    (row) => !row.subRows?.length,
+  );
+  const childRows = filteredRowModel.rows;
+
+  const row = createRow(
+    table,
+    TOTALS_ROW_ID,
+    leafRows[0]?.original as TData,
+    -1,
+    0,
+  );
+
+  Object.assign(row, {
+    leafRows,
+    getValue: (columnId: string) => {
+      if (row._groupingValuesCache.hasOwnProperty(columnId)) {
+        return row._groupingValuesCache[columnId];
+      }
+
+      const aggregationFn = columns
+        .find((column) => column.id === columnId)
+        ?.getAggregationFn();
+      row._groupingValuesCache[columnId] =
+        aggregationFn && leafRows.length > 0
+          ? aggregationFn(columnId, leafRows, childRows)
+          : undefined;
+
+      return row._groupingValuesCache[columnId];
+    },
+  });
+
+  return row;
+}
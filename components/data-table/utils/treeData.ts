@@ -0,0 +1,172 @@
+/**
+ * Tree data support. Builds the hierarchy of flat data from parent ids, and
+ * provides the filtered row model that rolls the values of child rows up into
+ * their parent rows for columns with an aggregation function.
+ */
+
+import {
+  Column,
+  Row,
+  RowModel,
+  Table,
+  createRow,
+  getFilteredRowModel,
+  getMemoOptions,
+  memo,
+} from "@tanstack/react-table";
+import { DataTableProps } from "@/components/data-table/types";
+
+interface ParentIdTree<TData> {
+  rows: TData[];
+  getSubRows: (originalRow: TData) => TData[] | undefined;
+  // Id of each row, the one its children refer to
+  getRowId: (originalRow: TData) => string;
+}
+
+/**
+ * Top-level rows, child lookup and row ids of flat data whose rows point to their
+ * parent. Rows are identified by getRowId, or by their index in the flat data
+ * without it, as TanStack Table would number the nested rows by their path
+ * instead. Rows whose parent doesn't exist become top-level rows.
+ */
+export function buildParentIdTree<TData>(
+  data: TData[],
+  getParentId: (originalRow: TData) => string | null | undefined,
+  getRowId?: DataTableProps<TData, unknown>["getRowId"],
+): ParentIdTree<TData> {
+  const rowIds = data.map((originalRow, index) =>
+    getRowId ? getRowId(originalRow, index) : String(index),
+  );
+  const rowsById = new Map(
+    rowIds.map((rowId, index) => [rowId, data[index]] as const),
+  );
+
+  const rows: TData[] = [];
+  const subRowsByRow = new Map<TData, TData[]>();
+  data.forEach((originalRow, index) => {
+    const parentId = getParentId(originalRow);
+    const parent =
+      parentId != null && parentId !== rowIds[index]
+        ? rowsById.get(parentId)
+        : undefined;
+
+    if (parent === undefined) {
+      rows.push(originalRow);
+    } else {
+      const siblings = subRowsByRow.get(parent);
+      if (siblings) {
+        siblings.push(originalRow);
+      } else {
+        subRowsByRow.set(parent, [originalRow]);
+      }
+    }
+  });
+
+  const rowIdsByRow = new Map(
+    data.map((originalRow, index) => [originalRow, rowIds[index]] as const),
+  );
+
+  return {
+    rows,
+    getSubRows: (originalRow) => subRowsByRow.get(originalRow),
+    getRowId: (originalRow) => rowIdsByRow.get(originalRow) ?? "",
+  };
+}
+
+/**
+ * Whether parent rows show the roll-up of their children in a column. Only
+ * explicit aggregation functions roll up, as the automatic one is the default
+ * of every column.
+ */
+export const isRollUpColumn = <TData, TValue>(column: Column<TData, TValue>) =>
+  column.columnDef.aggregationFn !== undefined &&
+  column.columnDef.aggregationFn !== "auto";
+
+/**
+ * Copy of a parent row that returns the aggregation of its children for the
+ * columns with an aggregation function, like a group row, and its own values
+ * otherwise. Created afresh so that the rows of the base row model stay intact.
+ */
+function createRollUpRow<TData>(
+  table: Table<TData>,
+  row: Row<TData>,
+  subRows: Row<TData>[],
+): Row<TData> {
+  const rollUpRow = createRow(
+    table,
+    row.id,
+    row.original,
+    row.index,
+    row.depth,
+    subRows,
+    row.parentId,
+  );
+  rollUpRow.columnFilters = row.columnFilters;
+  rollUpRow.columnFiltersMeta = row.columnFiltersMeta;
+
+  const getOwnValue = rollUpRow.getValue;
+  const rolledUpValues: Record<string, unknown> = {};
+
+  rollUpRow.getValue = ((columnId: string) => {
+    const column = table.getColumn(columnId);
+    const aggregationFn =
+      column && isRollUpColumn(column) ? column.getAggregationFn() : undefined;
+    if (!aggregationFn) return getOwnValue(columnId);
+
+    if (!(columnId in rolledUpValues)) {
+      // Intermediate rows are covered by the leaf rows below them
+      const leafRows = rollUpRow
+        .getLeafRows()
+        .filter((leaf) => !leaf.subRows?.length);
+      rolledUpValues[columnId] = aggregationFn(columnId, leafRows, subRows);
+    }
+    return rolledUpValues[columnId];
+  }) as Row<TData>["getValue"];
+
+  return rollUpRow;
+}
+
+/**
+ * Filtered row model that, for tree data, rolls child values up into the parent
+ * rows. Rolling up after filtering makes parents summarize the matching children.
+ * The roll-ups are recomputed when the columns or the aggregations and weights
+ * chosen per column change.
+ */
+export function getTreeFilteredRowModel<TData>(): (
+  table: Table<TData>,
+) => () => RowModel<TData> {
+  return (table) => {
+    const getBaseRowModel = getFilteredRowModel<TData>()(table);
+
+    return memo(
+      () => [
+        getBaseRowModel(),
+        table.options.meta?.isTreeData,
+        table.options.columns,
+        table.options.meta?.columnAggregations,
+        table.options.meta?.aggregationWeights,
+      ],
+      (rowModel, isTreeData) => {
+        if (!isTreeData) return rowModel;
+
+        const flatRows: Row<TData>[] = [];
+        const rowsById: Record<string, Row<TData>> = {};
+
+        const rollUpRows = (rows: Row<TData>[]): Row<TData>[] =>
+          rows.map((row) => {
+            // Parents are listed before their children, as in the base model
+            const flatIndex = flatRows.push(row) - 1;
+            const treeRow = row.subRows?.length
+              ? createRollUpRow(table, row, rollUpRows(row.subRows))
+              : row;
+            flatRows[flatIndex] = treeRow;
+            rowsById[treeRow.id] = treeRow;
+            return treeRow;
+          });
+
+        return { rows: rollUpRows(rowModel.rows), flatRows, rowsById };
+      },
+      getMemoOptions(table.options, "debugTable", "getTreeFilteredRowModel"),
+    );
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Compact, human-readable encoding of table state into URL query parameters.
+ * Sorting, grouping, visibility and order are written as comma separated column
+ * ids, pagination as plain numbers and column filters (arbitrary values) as
+ * base64url encoded JSON. Values equal to the defaults are omitted.
+ */
+
+import { DataTableState } from "@/components/data-table/types";
+
+// Short query parameter names for each encoded state slice
+const URL_KEYS = {
+  sorting: "sort",
+  grouping: "group",
+  globalFilter: "q",
+  columnFilters: "filter",
+  hiddenColumns: "hide",
+  columnOrder: "order",
+  page: "page",
+  pageSize: "size",
+} as const;
+
+export type UrlTableState = Partial<
+  Pick<
+    DataTableState,
+    | "sorting"
+    | "grouping"
+    | "globalFilter"
+    | "columnFilters"
+    | "columnVisibility"
+    | "columnOrder"
+    | "pagination"
+  >
+>;
+
+const getKey = (prefix: string, key: string) =>
+  prefix ? `${prefix}.${key}` : key;
+
+const splitList = (value: string | null): string[] =>
+  value ? value.split(",").filter(Boolean) : [];
+
+function toBase64Url(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join(
+    "",
+  );
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Return every query parameter name owned by a table with the given prefix
+ */
+export function getUrlStateKeys(prefix = ""): string[] {
+  return Object.values(URL_KEYS).map((key) => getKey(prefix, key));
+}
+
+/**
+ * Encode table state into query parameters. Slices at their default value are
+ * left out to keep links short.
+ */
+export function encodeUrlTableState(
+  state: UrlTableState,
+  prefix = "",
+  defaultPageSize = 50,
+): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  if (state.sorting?.length) {
+    // Descending columns are prefixed with "-"
+    params[getKey(prefix, URL_KEYS.sorting)] = state.sorting
+      .map((sort) => (sort.desc ? `-${sort.id}` : sort.id))
+      .join(",");
+  }
+
+  if (state.grouping?.length) {
+    params[getKey(prefix, URL_KEYS.grouping)] = state.grouping.join(",");
+  }
+
+  if (state.globalFilter) {
+    params[getKey(prefix, URL_KEYS.globalFilter)] = state.globalFilter;
+  }
+
+  if (state.columnFilters?.length) {
+    const compactFilters = state.columnFilters.map((filter) => [
+      filter.id,
+      filter.value,
+    ]);
+    params[getKey(prefix, URL_KEYS.columnFilters)] = toBase64Url(
+      JSON.stringify(compactFilters),
+    );
+  }
+
+  const hiddenColumns = Object.entries(state.columnVisibility ?? {})
+    .filter(([, isVisible]) => !isVisible)
+    .map(([columnId]) => columnId);
+  if (hiddenColumns.length) {
+    params[getKey(prefix, URL_KEYS.hiddenColumns)] = hiddenColumns.join(",");
+  }
+
+  if (state.columnOrder?.length) {
+    params[getKey(prefix, URL_KEYS.columnOrder)] = state.columnOrder.join(",");
+  }
+
+  if (state.pagination) {
+    if (state.pagination.pageIndex > 0) {
+      // Pages are 1-based in the URL
+      params[getKey(prefix, URL_KEYS.page)] = String(
+        state.pagination.pageIndex + 1,
+      );
+    }
+    if (state.pagination.pageSize !== defaultPageSize) {
+      params[getKey(prefix, URL_KEYS.pageSize)] = String(
+        state.pagination.pageSize,
+      );
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Decode the table state encoded in the query parameters. Only slices present in
+ * the URL are returned; malformed values are ignored.
+ */
+export function decodeUrlTableState(
+  searchParams: URLSearchParams,
+  prefix = "",
+  defaultPageSize = 50,
+): UrlTableState {
+  const read = (key: string) => searchParams.get(getKey(prefix, key));
+  const state: UrlTableState = {};
+
+  const sorting = read(URL_KEYS.sorting);
+  if (sorting !== null) {
+    state.sorting = splitList(sorting).map((entry) =>
+      entry.startsWith("-")
+        ? { id: entry.slice(1), desc: true }
+        : { id: entry, desc: false },
+    );
+  }
+
+  const grouping = read(URL_KEYS.grouping);
+  if (grouping !== null) {
+    state.grouping = splitList(grouping);
+  }
+
+  const globalFilter = read(URL_KEYS.globalFilter);
+  if (globalFilter !== null) {
+    state.globalFilter = globalFilter;
+  }
+
+  const columnFilters = read(URL_KEYS.columnFilters);
+  if (columnFilters !== null) {
+    try {
+      const compactFilters = JSON.parse(fromBase64Url(columnFilters));
+      if (Array.isArray(compactFilters)) {
+        state.columnFilters = compactFilters.map(([id, value]) => ({
+          id: String(id),
+          value,
+        }));
+      }
+    } catch {
+      // Ignore filters that can't be decoded
+    }
+  }
+
+  const hiddenColumns = read(URL_KEYS.hiddenColumns);
+  if (hiddenColumns !== null) {
+    state.columnVisibility = Object.fromEntries(
+      splitList(hiddenColumns).map((columnId) => [columnId, false]),
+    );
+  }
+
+  const columnOrder = read(URL_KEYS.columnOrder);
+  if (columnOrder !== null) {
+    state.columnOrder = splitList(columnOrder);
+  }
+
+  const page = Number(read(URL_KEYS.page));
+  const pageSize = Number(read(URL_KEYS.pageSize));
+  if (page > 0 || pageSize > 0) {
+    state.pagination = {
+      pageIndex: page > 0 ? Math.floor(page) - 1 : 0,
+      pageSize: pageSize > 0 ? Math.floor(pageSize) : defaultPageSize,
+    };
+  }
+
+  return state;
+}
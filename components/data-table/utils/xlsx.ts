@@ -0,0 +1,399 @@
+/**
+ * Minimal writer for Excel (.xlsx) workbooks holding a single worksheet.
+ * Writes typed numeric, boolean, date and text cells with number formats, bold
+ * cells, a frozen header, column widths and row outline levels, and derives
+ * Excel number formats from the options of the money and date cell renderers.
+ */
+
+import {
+  DateOptions,
+  MoneyFormatterOptions,
+} from "@/components/data-table/ui/cell-renderers/types";
+import { createZip } from "@/components/data-table/utils/zip";
+
+export type XlsxValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxCell {
+  value: XlsxValue;
+  /** Excel number format code, e.g. `#,##0.00` or `yyyy-mm-dd` */
+  numberFormat?: string;
+  bold?: boolean;
+}
+
+export interface XlsxRow {
+  cells: XlsxCell[];
+  /** Outline (grouping) level of the row, 0 for top-level rows */
+  outlineLevel?: number;
+  hidden?: boolean;
+  /** Marks the row summarizing a collapsed outline group */
+  collapsed?: boolean;
+}
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxRow[];
+  /** Widths of the columns in characters */
+  columnWidths?: number[];
+  /** Number of rows kept in view while scrolling */
+  frozenRows?: number;
+}
+
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export const DEFAULT_DATE_FORMAT = "yyyy-mm-dd";
+
+// Same defaults as the money renderer
+const DEFAULT_CURRENCY = "USD";
+const DEFAULT_LOCALE = "en-US";
+const DEFAULT_DIGITS = 2;
+const DEFAULT_ABBREVIATION_DIVIDER = "M";
+const DEFAULT_SHOW_CURRENCY_SYMBOL = true;
+
+// Number format codes count trailing commas as thousands divisions
+const ABBREVIATION_SCALING = { K: ",", M: ",,", B: ",,,", T: ",,,," };
+
+// First id available to custom number formats
+const FIRST_CUSTOM_FORMAT_ID = 164;
+
+// Width in pixels of one character of the default font
+const CHARACTER_WIDTH = 7;
+
+// Quote text so that number format codes show it literally
+const quoteFormatText = (text: string) =>
+  text ? `"${text.replace(/"/g, "")}"` : "";
+
+/**
+ * Excel number format matching the display of the money renderer
+ */
+export function getMoneyNumberFormat(
+  options: MoneyFormatterOptions = {},
+): string {
+  const {
+    currency = DEFAULT_CURRENCY,
+    locale = DEFAULT_LOCALE,
+    digits = DEFAULT_DIGITS,
+    abbreviate = false,
+    abbreviationDivider = DEFAULT_ABBREVIATION_DIVIDER,
+    showCurrencySymbol = DEFAULT_SHOW_CURRENCY_SYMBOL,
+  } = options;
+
+  let format = digits > 0 ? `#,##0.${"0".repeat(digits)}` : "#,##0";
+  if (abbreviate) {
+    format += `${ABBREVIATION_SCALING[abbreviationDivider]}${quoteFormatText(abbreviationDivider)}`;
+  }
+  if (!showCurrencySymbol) return format;
+
+  // Place the currency symbol where the locale places it
+  const parts = new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+  }).formatToParts(1);
+  const currencyIndex = parts.findIndex((part) => part.type === "currency");
+  if (currencyIndex === -1) return format;
+
+  const symbol = parts[currencyIndex].value;
+  const isPrefix =
+    currencyIndex < parts.findIndex((part) => part.type === "integer");
+  const isSpaced =
+    parts[isPrefix ? currencyIndex + 1 : currencyIndex - 1]?.type === "literal";
+  return isPrefix
+    ? `${quoteFormatText(isSpaced ? `${symbol} ` : symbol)}${format}`
+    : `${format}${quoteFormatText(isSpaced ? ` ${symbol}` : symbol)}`;
+}
+
+/**
+ * Excel number format matching the display of the date renderer
+ */
+export function getDateNumberFormat(options: DateOptions = {}): string {
+  const { locale, formatOptions } = options;
+  if (!locale && !formatOptions) return DEFAULT_DATE_FORMAT;
+
+  // Format a date whose parts tell numeric and 2-digit styles apart
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat(
+      locale ?? "sv-SE",
+      formatOptions ?? { year: "numeric", month: "2-digit", day: "2-digit" },
+    ).formatToParts(new Date(2006, 2, 5, 8, 7, 9));
+  } catch {
+    return DEFAULT_DATE_FORMAT;
+  }
+
+  const format = parts
+    .map((part) => {
+      switch (part.type) {
+        case "year":
+          return part.value.length === 2 ? "yy" : "yyyy";
+        case "month":
+          if (/^\d+$/.test(part.value)) {
+            return part.value.length === 2 ? "mm" : "m";
+          }
+          return formatOptions?.month === "long" ? "mmmm" : "mmm";
+        case "day":
+          return part.value.length === 2 ? "dd" : "d";
+        case "weekday":
+          return formatOptions?.weekday === "long" ? "dddd" : "ddd";
+        case "hour":
+          return part.value.length === 2 ? "hh" : "h";
+        case "minute":
+          return "mm";
+        case "second":
+          return "ss";
+        case "dayPeriod":
+          return "AM/PM";
+        case "literal":
+          return quoteFormatText(part.value.replace(/[\u00a0\u202f]/g, " "));
+        default:
+          return "";
+      }
+    })
+    .join("");
+  return format || DEFAULT_DATE_FORMAT;
+}
+
+/**
+ * Excel column width in characters for a width in pixels
+ */
+export function pixelsToColumnWidth(pixels: number): number {
+  return Math.max(Math.round((pixels / CHARACTER_WIDTH) * 100) / 100, 1);
+}
+
+// Column letters of a zero-based column index: A, B, ..., Z, AA, ...
+function getColumnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Escape text for XML, dropping characters XML can't hold
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Excel date serial number of a date, in local time
+function toDateSerial(date: Date): number {
+  const utc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds(),
+  );
+  return (utc - Date.UTC(1899, 11, 30)) / 86_400_000;
+}
+
+// Sheet names are limited to 31 characters and can't hold []:*?/\
+function getSheetName(name: string): string {
+  return (
+    name
+      .replace(/[[\]:*?/\\]/g, " ")
+      .slice(0, 31)
+      .trim() || "Sheet1"
+  );
+}
+
+/**
+ * Registry of the cell styles (number format and font weight) used in a sheet
+ */
+function createStyleRegistry() {
+  const numberFormats = new Map<string, number>();
+  const styles = new Map<string, number>([["0|false", 0]]);
+  const cellXfs = [
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+  ];
+
+  const getStyleIndex = (numberFormat: string | undefined, bold = false) => {
+    let formatId = 0;
+    if (numberFormat) {
+      formatId =
+        numberFormats.get(numberFormat) ??
+        FIRST_CUSTOM_FORMAT_ID + numberFormats.size;
+      numberFormats.set(numberFormat, formatId);
+    }
+
+    const key = `${formatId}|${bold}`;
+    let index = styles.get(key);
+    if (index === undefined) {
+      index = cellXfs.length;
+      styles.set(key, index);
+      cellXfs.push(
+        `<xf numFmtId="${formatId}" fontId="${bold ? 1 : 0}" fillId="0" borderId="0" xfId="0"${formatId ? ' applyNumberFormat="1"' : ""}${bold ? ' applyFont="1"' : ""}/>`,
+      );
+    }
+    return index;
+  };
+
+  const toXml = () => {
+    const numFmts = Array.from(numberFormats)
+      .map(
+        ([format, id]) =>
+          `<numFmt numFmtId="${id}" formatCode="${escapeXml(format)}"/>`,
+      )
+      .join("");
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+      numberFormats.size
+        ? `<numFmts count="${numberFormats.size}">${numFmts}</numFmts>`
+        : "",
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+      `<cellXfs count="${cellXfs.length}">${cellXfs.join("")}</cellXfs>`,
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>',
+      "</styleSheet>",
+    ].join("");
+  };
+
+  return { getStyleIndex, toXml };
+}
+
+// XML of a single cell, or nothing for empty cells
+function getCellXml(
+  cell: XlsxCell,
+  reference: string,
+  getStyleIndex: (numberFormat: string | undefined, bold?: boolean) => number,
+): string {
+  const { value, bold } = cell;
+  if (value === null || value === undefined || value === "") {
+    return bold
+      ? `<c r="${reference}" s="${getStyleIndex(undefined, bold)}"/>`
+      : "";
+  }
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return "";
+    const style = getStyleIndex(cell.numberFormat ?? DEFAULT_DATE_FORMAT, bold);
+    return `<c r="${reference}" s="${style}"><v>${toDateSerial(value)}</v></c>`;
+  }
+
+  const style = getStyleIndex(
+    typeof value === "number" ? cell.numberFormat : undefined,
+    bold,
+  );
+  const styleAttribute = style ? ` s="${style}"` : "";
+  if (typeof value === "number") {
+    return Number.isFinite(value)
+      ? `<c r="${reference}"${styleAttribute}><v>${value}</v></c>`
+      : "";
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${reference}"${styleAttribute} t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${reference}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * Build an .xlsx workbook holding the given sheet
+ */
+export function createXlsx(sheet: XlsxSheet): Uint8Array {
+  const { rows, columnWidths = [], frozenRows = 0 } = sheet;
+  const styles = createStyleRegistry();
+
+  const rowsXml = rows
+    .map((row, rowIndex) => {
+      const rowNumber = rowIndex + 1;
+      const cellsXml = row.cells
+        .map((cell, columnIndex) =>
+          getCellXml(
+            cell,
+            `${getColumnName(columnIndex)}${rowNumber}`,
+            styles.getStyleIndex,
+          ),
+        )
+        .join("");
+      const attributes = [
+        `r="${rowNumber}"`,
+        row.outlineLevel ? `outlineLevel="${row.outlineLevel}"` : "",
+        row.hidden ? 'hidden="1"' : "",
+        row.collapsed ? 'collapsed="1"' : "",
+      ]
+        .filter(Boolean)
+        .join(" ");
+      return `<row ${attributes}>${cellsXml}</row>`;
+    })
+    .join("");
+
+  const maxOutlineLevel = rows.reduce(
+    (level, row) => Math.max(level, row.outlineLevel ?? 0),
+    0,
+  );
+  const frozenCell = `A${frozenRows + 1}`;
+
+  const sheetXml = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    // Group rows sit above their children, as in the table
+    '<sheetPr><outlinePr summaryBelow="0"/></sheetPr>',
+    '<sheetViews><sheetView workbookViewId="0">',
+    frozenRows
+      ? `<pane ySplit="${frozenRows}" topLeftCell="${frozenCell}" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="${frozenCell}" sqref="${frozenCell}"/>`
+      : "",
+    "</sheetView></sheetViews>",
+    `<sheetFormatPr defaultRowHeight="15"${maxOutlineLevel ? ` outlineLevelRow="${maxOutlineLevel}"` : ""}/>`,
+    columnWidths.length
+      ? `<cols>${columnWidths
+          .map(
+            (width, index) =>
+              `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`,
+          )
+          .join("")}</cols>`
+      : "",
+    `<sheetData>${rowsXml}</sheetData>`,
+    "</worksheet>",
+  ].join("");
+
+  return createZip([
+    {
+      name: "[Content_Types].xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        "</Types>",
+    },
+    {
+      name: "_rels/.rels",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        "</Relationships>",
+    },
+    {
+      name: "xl/workbook.xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${escapeXml(getSheetName(sheet.name))}" sheetId="1" r:id="rId1"/></sheets>` +
+        "</workbook>",
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        "</Relationships>",
+    },
+    { name: "xl/worksheets/sheet1.xml", content: sheetXml },
+    // Styles last: they are only known once every cell has been written
+    { name: "xl/styles.xml", content: styles.toXml() },
+  ]);
+}